@@ -28,6 +28,7 @@ declare module "openclaw" {
     };
     runtime?: {
       config?: {
+        loadConfig?: () => unknown;
         writeConfigFile?: (cfg: unknown) => void;
       };
     };
@@ -0,0 +1,522 @@
+/**
+ * Local stand-in for the Clawatch cloud service, for offline development.
+ *
+ * Speaks the plugin <-> cloud frame protocol from src/types.ts over a WebSocket at
+ * /api/v1/watch/connect, serves the REST endpoints the CLI calls (login, confirm,
+ * pair, unpair) with a fixed OTP, and exposes a /sim/* HTTP API to inject watch
+ * messages and inspect recorded replies, pushes and frames.
+ *
+ * Run: npm run sim -- [--port 8787] [--otp 123456] [--token sim-token] [--imei 860000000000001] [--push-acks]
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { createHash } from "crypto";
+import type { Duplex } from "stream";
+import { pathToFileURL } from "url";
+import type {
+  ClawatchWSFrame,
+  ControlFrame,
+  InboundMessageFrame,
+  MessageContext,
+  PushFrame,
+  ReplyFrame,
+  ErrorFrame,
+} from "../src/types.js";
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const CONNECT_PATH = "/api/v1/watch/connect";
+
+export type SimulatorOptions = {
+  port?: number;
+  host?: string;
+  /** OTP accepted by /login/confirm. Default: 123456. */
+  otp?: string;
+  /** Token accepted on register without logging in. Default: sim-token. */
+  token?: string;
+  /** IMEIs paired to the pre-seeded token. Default: one watch. */
+  imeis?: string[];
+  /** Answer each push with a push_ack, for testing pushAckTimeoutMs. Default: false, like the cloud. */
+  pushAcks?: boolean;
+  log?: (msg: string) => void;
+};
+
+export type RecordedFrame = {
+  at: number;
+  direction: "in" | "out";
+  frame: Record<string, unknown>;
+};
+
+type Account = { watches: Set<string>; intervals: Map<string, number> };
+
+type PendingReply = {
+  resolve: (result: { id: string; replies: ReplyFrame[]; error?: ErrorFrame }) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// --- Minimal RFC 6455 framing (text, close, ping/pong; server frames are never masked) ---
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const len = payload.length;
+  let header: Buffer;
+  if (len < 126) {
+    header = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function createFrameReader(onFrame: (opcode: number, payload: Buffer) => void) {
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentOpcode = 0;
+
+  return (chunk: Buffer): void => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0]! & 0x80) !== 0;
+      const opcode = buffer[0]! & 0x0f;
+      const masked = (buffer[1]! & 0x80) !== 0;
+      let len = buffer[1]! & 0x7f;
+      let offset = 2;
+      if (len === 126) {
+        if (buffer.length < 4) return;
+        len = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (len === 127) {
+        if (buffer.length < 10) return;
+        len = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskLen = masked ? 4 : 0;
+      if (buffer.length < offset + maskLen + len) return;
+      const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+      const payload = Buffer.from(buffer.subarray(offset + maskLen, offset + maskLen + len));
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] = payload[i]! ^ mask[i % 4]!;
+      }
+      buffer = buffer.subarray(offset + maskLen + len);
+
+      if (opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          onFrame(fragmentOpcode, Buffer.concat(fragments));
+          fragments = [];
+        }
+      } else if (!fin) {
+        fragmentOpcode = opcode;
+        fragments = [payload];
+      } else {
+        onFrame(opcode, payload);
+      }
+    }
+  };
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (c) => (data += c));
+    req.on("end", () => {
+      try {
+        const parsed = data ? (JSON.parse(data) as unknown) : {};
+        resolve(parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export function startSimulator(options: SimulatorOptions = {}) {
+  const port = options.port ?? 8787;
+  const host = options.host ?? "127.0.0.1";
+  const otp = options.otp ?? "123456";
+  const log = options.log ?? ((msg: string) => console.log(`[clawatch-sim] ${msg}`));
+
+  const accounts = new Map<string, Account>();
+  accounts.set(options.token ?? "sim-token", {
+    watches: new Set(options.imeis ?? ["860000000000001"]),
+    intervals: new Map(),
+  });
+  const loginSessions = new Map<string, string>();
+
+  let socket: Duplex | null = null;
+  let socketToken: string | null = null;
+  const frames: RecordedFrame[] = [];
+  const replies = new Map<string, ReplyFrame[]>();
+  const errors = new Map<string, ErrorFrame>();
+  const pushes: PushFrame[] = [];
+  const pendingReplies = new Map<string, PendingReply>();
+  let messageSeq = 0;
+
+  function record(direction: "in" | "out", frame: Record<string, unknown>): void {
+    frames.push({ at: Date.now(), direction, frame });
+  }
+
+  function sendFrame(frame: ClawatchWSFrame | Record<string, unknown>): boolean {
+    if (!socket) return false;
+    record("out", frame as Record<string, unknown>);
+    socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(frame))));
+    return true;
+  }
+
+  function settleReply(id: string): void {
+    const pending = pendingReplies.get(id);
+    if (!pending) return;
+    pendingReplies.delete(id);
+    clearTimeout(pending.timer);
+    pending.resolve({ id, replies: replies.get(id) ?? [], error: errors.get(id) });
+  }
+
+  function account(): Account | undefined {
+    return socketToken ? accounts.get(socketToken) : undefined;
+  }
+
+  function handleControl(frame: ControlFrame): void {
+    const acct = account();
+    if (!acct?.watches.has(frame.imei)) {
+      sendFrame({ type: "control_ack", id: frame.id, ok: false, error: `IMEI ${frame.imei} not paired` });
+      return;
+    }
+    switch (frame.action) {
+      case "set_interval": {
+        const sec = Number(frame.params?.intervalSec);
+        if (!Number.isFinite(sec) || sec < 1) {
+          sendFrame({ type: "control_ack", id: frame.id, ok: false, error: "intervalSec must be a positive number" });
+          return;
+        }
+        acct.intervals.set(frame.imei, sec);
+        sendFrame({ type: "control_ack", id: frame.id, ok: true, result: { intervalSec: sec } });
+        return;
+      }
+      case "get_config":
+        sendFrame({
+          type: "control_ack",
+          id: frame.id,
+          ok: true,
+          result: { imei: frame.imei, intervalSec: acct.intervals.get(frame.imei) ?? 300, firmware: "sim-1.0" },
+        });
+        return;
+      case "unpair":
+        acct.watches.delete(frame.imei);
+        sendFrame({ type: "control_ack", id: frame.id, ok: true });
+        sendFrame({ type: "unbound", imei: frame.imei, reason: "unpaired by plugin" });
+        return;
+      default:
+        sendFrame({ type: "control_ack", id: frame.id, ok: false, error: `Unknown action ${frame.action}` });
+    }
+  }
+
+  function handleClientFrame(frame: Record<string, unknown>): void {
+    record("in", frame);
+    switch (frame.type) {
+      case "register": {
+        const token = String(frame.token ?? "");
+        const acct = accounts.get(token);
+        if (!acct) {
+          sendFrame({ type: "error", code: "invalid_token", message: "Invalid or expired token" });
+          return;
+        }
+        socketToken = token;
+        log(`plugin registered (client=${String(frame.client)} version=${String(frame.version)})`);
+        sendFrame({ type: "registered", watches: [...acct.watches].map((imei) => ({ imei })) });
+        return;
+      }
+      case "ping":
+        sendFrame({ type: "pong" });
+        return;
+      case "reply": {
+        const f = frame as unknown as ReplyFrame;
+        const list = replies.get(f.id) ?? [];
+        list.push(f);
+        replies.set(f.id, list);
+        log(`reply id=${f.id} done=${f.done} text=${String(f.text).slice(0, 60)}`);
+        if (f.done) settleReply(f.id);
+        return;
+      }
+      case "error": {
+        const f = frame as unknown as ErrorFrame;
+        if (f.id) {
+          errors.set(f.id, f);
+          settleReply(f.id);
+        }
+        log(`plugin error id=${f.id ?? ""} code=${f.code ?? ""} message=${f.message}`);
+        return;
+      }
+      case "push": {
+        const f = frame as unknown as PushFrame;
+        if (!account()?.watches.has(f.imei)) {
+          log(`push for unpaired imei=${f.imei} dropped`);
+          if (options.pushAcks) sendFrame({ type: "push_ack", id: f.id, ok: false, error: `IMEI ${f.imei} not paired` });
+          return;
+        }
+        pushes.push(f);
+        log(`push imei=${f.imei} text=${String(f.text).slice(0, 60)}`);
+        if (options.pushAcks) sendFrame({ type: "push_ack", id: f.id, ok: true });
+        return;
+      }
+      case "control":
+        handleControl(frame as unknown as ControlFrame);
+        return;
+      default:
+        log(`unknown frame type from plugin: ${String(frame.type)}`);
+    }
+  }
+
+  function injectMessage(body: Record<string, unknown>): InboundMessageFrame {
+    const frame: InboundMessageFrame = {
+      type: "message",
+      id: typeof body.id === "string" ? body.id : `sim-${Date.now()}-${++messageSeq}`,
+      imei: String(body.imei ?? [...(account()?.watches ?? [])][0] ?? ""),
+      text: String(body.text ?? ""),
+      timestamp: Math.floor(Date.now() / 1000),
+      isCommand: body.isCommand === true ? true : undefined,
+      context: (body.context as MessageContext | undefined) ?? undefined,
+    };
+    sendFrame(frame);
+    return frame;
+  }
+
+  function bearer(req: IncomingMessage): Account | undefined {
+    const auth = req.headers.authorization ?? "";
+    return accounts.get(auth.replace(/^Bearer\s+/i, ""));
+  }
+
+  async function handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", `http://${host}:${port}`);
+    const route = `${req.method} ${url.pathname}`;
+
+    switch (route) {
+      // --- Cloud REST endpoints used by the CLI ---
+      case "POST /api/v1/watch/login": {
+        const body = await readJsonBody(req);
+        if (!body.countryCode || !body.phoneNumber) {
+          return sendJson(res, 400, { error: "countryCode and phoneNumber required" });
+        }
+        const session = `sim-session-${Date.now()}`;
+        loginSessions.set(session, `${String(body.countryCode)}${String(body.phoneNumber)}`);
+        log(`login ${String(body.countryCode)} ${String(body.phoneNumber)} (OTP is ${otp})`);
+        return sendJson(res, 200, { session });
+      }
+      case "POST /api/v1/watch/login/confirm": {
+        const body = await readJsonBody(req);
+        const phone = loginSessions.get(String(body.session ?? ""));
+        if (!phone) return sendJson(res, 400, { error: "Unknown session" });
+        if (String(body.otp ?? "") !== otp) return sendJson(res, 401, { error: "Invalid OTP" });
+        loginSessions.delete(String(body.session));
+        const apiToken = `sim-${phone.replace(/\D/g, "")}-${Date.now()}`;
+        accounts.set(apiToken, { watches: new Set(), intervals: new Map() });
+        return sendJson(res, 200, { apiToken });
+      }
+      case "POST /api/v1/watch/pair": {
+        const acct = bearer(req);
+        if (!acct) return sendJson(res, 401, { error: "unauthorized" });
+        const body = await readJsonBody(req);
+        const imei = String(body.imei ?? "");
+        if (!/^\d{15}$/.test(imei)) return sendJson(res, 400, { error: "IMEI must be 15 digits" });
+        acct.watches.add(imei);
+        return sendJson(res, 200, { ok: true });
+      }
+      case "POST /api/v1/watch/unpair": {
+        const acct = bearer(req);
+        if (!acct) return sendJson(res, 401, { error: "unauthorized" });
+        const body = await readJsonBody(req);
+        const imei = String(body.device_id ?? "");
+        if (!acct.watches.delete(imei)) return sendJson(res, 404, { error: `IMEI ${imei} not paired` });
+        if (acct === account()) sendFrame({ type: "unbound", imei, reason: "unpaired via API" });
+        return sendJson(res, 200, { ok: true });
+      }
+
+      // --- Simulator control API ---
+      case "GET /sim/state":
+        return sendJson(res, 200, {
+          connected: socket !== null && socketToken !== null,
+          watches: [...(account()?.watches ?? [])],
+          pendingReplies: [...pendingReplies.keys()],
+        });
+      case "POST /sim/message": {
+        const body = await readJsonBody(req);
+        if (!socket || !socketToken) return sendJson(res, 409, { error: "plugin not connected" });
+        const frame = injectMessage(body);
+        if (body.wait !== true) return sendJson(res, 202, { id: frame.id });
+        const timeoutMs = typeof body.timeoutMs === "number" ? body.timeoutMs : 120000;
+        const result = await new Promise<{ id: string; replies: ReplyFrame[]; error?: ErrorFrame; timedOut?: boolean }>(
+          (resolve) => {
+            const timer = setTimeout(() => {
+              pendingReplies.delete(frame.id);
+              resolve({ id: frame.id, replies: replies.get(frame.id) ?? [], timedOut: true });
+            }, timeoutMs);
+            pendingReplies.set(frame.id, { resolve, timer });
+          }
+        );
+        return sendJson(res, result.timedOut ? 504 : 200, {
+          ...result,
+          text: result.replies.map((r) => r.text).filter(Boolean).join(" "),
+        });
+      }
+      case "GET /sim/replies": {
+        const id = url.searchParams.get("id");
+        return sendJson(res, 200, id ? { id, replies: replies.get(id) ?? [], error: errors.get(id) } : Object.fromEntries(replies));
+      }
+      case "GET /sim/pushes":
+        return sendJson(res, 200, pushes);
+      case "GET /sim/frames":
+        return sendJson(res, 200, frames);
+      case "POST /sim/unbound": {
+        const body = await readJsonBody(req);
+        const imei = String(body.imei ?? "");
+        account()?.watches.delete(imei);
+        const sent = sendFrame({ type: "unbound", imei, reason: typeof body.reason === "string" ? body.reason : undefined });
+        return sendJson(res, sent ? 200 : 409, { ok: sent });
+      }
+      case "POST /sim/error": {
+        const body = await readJsonBody(req);
+        const sent = sendFrame({
+          type: "error",
+          code: typeof body.code === "string" ? body.code : undefined,
+          message: String(body.message ?? "simulated error"),
+          id: typeof body.id === "string" ? body.id : undefined,
+        });
+        return sendJson(res, sent ? 200 : 409, { ok: sent });
+      }
+      case "POST /sim/frame": {
+        // Raw escape hatch: send any JSON frame to the plugin as-is
+        const body = await readJsonBody(req);
+        const sent = sendFrame(body);
+        return sendJson(res, sent ? 200 : 409, { ok: sent });
+      }
+      case "POST /sim/disconnect":
+        socket?.end(encodeFrame(0x8, Buffer.alloc(0)));
+        return sendJson(res, 200, { ok: true });
+      case "POST /sim/reset":
+        frames.length = 0;
+        pushes.length = 0;
+        replies.clear();
+        errors.clear();
+        return sendJson(res, 200, { ok: true });
+      default:
+        return sendJson(res, 404, { error: `No route ${route}` });
+    }
+  }
+
+  const server = createServer((req, res) => {
+    handleHttp(req, res).catch((err) => sendJson(res, 500, { error: String(err) }));
+  });
+
+  server.on("upgrade", (req: IncomingMessage, sock: Duplex) => {
+    const url = new URL(req.url ?? "/", `http://${host}:${port}`);
+    const key = req.headers["sec-websocket-key"];
+    if (url.pathname !== CONNECT_PATH || typeof key !== "string") {
+      sock.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+    const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+    sock.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    if (socket) {
+      log("replacing previous plugin connection");
+      socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    }
+    socket = sock;
+    socketToken = null;
+    log("plugin connected");
+
+    const read = createFrameReader((opcode, payload) => {
+      if (opcode === 0x1) {
+        try {
+          handleClientFrame(JSON.parse(payload.toString("utf-8")) as Record<string, unknown>);
+        } catch {
+          log("invalid JSON from plugin");
+        }
+      } else if (opcode === 0x8) {
+        sock.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        sock.write(encodeFrame(0xa, payload));
+      }
+    });
+    sock.on("data", read);
+    const onGone = () => {
+      if (socket === sock) {
+        socket = null;
+        socketToken = null;
+        log("plugin disconnected");
+      }
+    };
+    sock.on("close", onGone);
+    sock.on("error", onGone);
+  });
+
+  const ready = new Promise<void>((resolve) => server.listen(port, host, resolve));
+
+  return {
+    ready,
+    url: `ws://${host}:${port}${CONNECT_PATH}`,
+    injectMessage,
+    sendFrame,
+    getReplies: (id: string) => replies.get(id) ?? [],
+    getPushes: () => [...pushes],
+    getFrames: () => [...frames],
+    close(): Promise<void> {
+      socket?.destroy();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function parseArgs(argv: string[]): SimulatorOptions {
+  const opts: SimulatorOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--push-acks") {
+      opts.pushAcks = true;
+      continue;
+    }
+    const value = argv[i + 1];
+    if (value == null) break;
+    switch (argv[i]) {
+      case "--port":
+        opts.port = parseInt(value, 10);
+        break;
+      case "--host":
+        opts.host = value;
+        break;
+      case "--otp":
+        opts.otp = value;
+        break;
+      case "--token":
+        opts.token = value;
+        break;
+      case "--imei":
+        (opts.imeis ??= []).push(value);
+        break;
+      default:
+        continue;
+    }
+    i++;
+  }
+  return opts;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const sim = startSimulator(parseArgs(process.argv.slice(2)));
+  sim.ready.then(() => {
+    console.log(`[clawatch-sim] listening on ${sim.url}`);
+    console.log(`[clawatch-sim] point the plugin at it: openclaw config set plugins.entries.clawatch.config.apiUrl ${sim.url}`);
+  });
+}
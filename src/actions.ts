@@ -0,0 +1,66 @@
+/**
+ * Run the actions attached to watch events (alerts): push to the watch,
+ * start an agent turn on the watch's session, or deliver to another OpenClaw channel.
+ */
+import { execFile } from "child_process";
+import { renderTemplate } from "./alerts.js";
+import type { ClawatchRuntime } from "./runtime.js";
+import type { WatchEvent } from "./types.js";
+
+export type ActionDeps = {
+  getRuntime: () => ClawatchRuntime | null;
+  /** Run an agent turn on the watch's session and return the reply text. Called on the watch's turn lane. */
+  runAgentTurn: (imei: string, prompt: string) => Promise<string>;
+  logger: { info: (msg: string, ...args: unknown[]) => void; error: (msg: string, ...args: unknown[]) => void };
+};
+
+/** Send text to another OpenClaw channel via `openclaw message send`. */
+export function deliverToChannel(channel: string, to: string, text: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "openclaw",
+      ["message", "send", "--channel", channel, "-t", to, "-m", text],
+      { timeout: 30000 },
+      (err, _stdout, stderr) => {
+        if (err) {
+          reject(new Error(stderr?.trim() || err.message));
+          return;
+        }
+        resolve();
+      }
+    );
+  });
+}
+
+export function createActionDispatcher(deps: ActionDeps) {
+  return async function dispatch(event: WatchEvent): Promise<void> {
+    for (const action of event.actions) {
+      const text = action.message ? renderTemplate(action.message, event.vars) : event.message;
+      try {
+        switch (action.type) {
+          case "push": {
+            const rt = deps.getRuntime();
+            if (!rt) throw new Error("Clawatch runtime not available");
+            await rt.sendPush(event.imei, text, { urgent: action.urgent });
+            break;
+          }
+          case "agent": {
+            const rt = deps.getRuntime();
+            if (!rt) throw new Error("Clawatch runtime not available");
+            const prompt = action.message ? text : `[Watch ${event.kind}] ${text}`;
+            const reply = await rt.runInLane(event.imei, () => deps.runAgentTurn(event.imei, prompt));
+            if (reply.trim()) await rt.sendPush(event.imei, reply, { urgent: action.urgent });
+            break;
+          }
+          case "channel":
+            await deliverToChannel(action.channel!, action.to!, text);
+            break;
+        }
+        deps.logger.info(`Clawatch ${event.kind} action ${action.type} done for ${event.imei}`);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        deps.logger.error(`Clawatch ${event.kind} action ${action.type} failed for ${event.imei}: ${msg}`);
+      }
+    }
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Health threshold alerts: evaluate AlertRules against each inbound sensor snapshot,
+ * with a per-rule, per-watch cooldown.
+ */
+import { isStaleReading } from "./context.js";
+import type { AlertMetric, AlertRule, ContextField, MessageContext, WatchAction } from "./types.js";
+
+const ALERT_METRICS: AlertMetric[] = ["heart_rate", "oxygen", "temperature", "systolic", "diastolic", "battery"];
+const DEFAULT_COOLDOWN_MIN = 30;
+/** Step increase between snapshots below which the wearer counts as resting. */
+const REST_STEPS_THRESHOLD = 30;
+
+const METRIC_SPEECH: Record<AlertMetric, { name: string; unit: string }> = {
+  heart_rate: { name: "heart rate", unit: "beats per minute" },
+  oxygen: { name: "blood oxygen", unit: "percent" },
+  temperature: { name: "temperature", unit: "degrees" },
+  systolic: { name: "blood pressure", unit: "" },
+  diastolic: { name: "lower blood pressure", unit: "" },
+  battery: { name: "watch battery", unit: "percent" },
+};
+
+/** The context field whose staleness limit applies to each metric. */
+const METRIC_FIELD: Record<AlertMetric, ContextField> = {
+  heart_rate: "heart_rate",
+  oxygen: "oxygen",
+  temperature: "temperature",
+  systolic: "blood_pressure",
+  diastolic: "blood_pressure",
+  battery: "battery",
+};
+
+export type AlertEngineOptions = {
+  /** Per-field maximum age in minutes, over the context defaults; older readings never fire. */
+  maxAgeMin?: Partial<Record<ContextField, number>>;
+};
+
+export type AlertEvent = {
+  rule: AlertRule;
+  imei: string;
+  value: number;
+  threshold: number;
+  direction: "below" | "above";
+  /** Default spoken warning; actions may override with their own message template. */
+  message: string;
+  actions: WatchAction[];
+};
+
+function readMetric(ctx: MessageContext, metric: AlertMetric): { value: number; received_at?: number } | undefined {
+  const bp = ctx.health?.blood_pressure;
+  switch (metric) {
+    case "battery":
+      return ctx.battery;
+    case "systolic":
+      return bp && { value: bp.systolic, received_at: bp.received_at };
+    case "diastolic":
+      return bp && { value: bp.diastolic, received_at: bp.received_at };
+    default:
+      return ctx.health?.[metric];
+  }
+}
+
+function defaultMessage(metric: AlertMetric, value: number, direction: "below" | "above", threshold: number): string {
+  const { name, unit } = METRIC_SPEECH[metric];
+  const reading = unit ? `${value} ${unit}` : `${value}`;
+  if (metric === "battery") {
+    return `Your watch battery is at ${reading}. Please charge it soon.`;
+  }
+  return `Your ${name} is ${reading}, which is ${direction} ${threshold}. Please sit down and rest, and call someone if you feel unwell.`;
+}
+
+/** Fill {value}, {threshold}, {imei} and {label} in an action message. */
+export function renderTemplate(template: string, vars: Record<string, string | number | undefined>): string {
+  return template.replace(/\{(\w+)\}/g, (m, key: string) => (vars[key] != null ? String(vars[key]) : m));
+}
+
+/** Parse alert rules from raw plugin config, dropping entries that cannot work. */
+export function parseAlertRules(raw: unknown): AlertRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules: AlertRule[] = [];
+  for (const [i, item] of raw.entries()) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    const metric = o.metric as AlertMetric;
+    if (!ALERT_METRICS.includes(metric)) continue;
+    const below = typeof o.below === "number" ? o.below : undefined;
+    const above = typeof o.above === "number" ? o.above : undefined;
+    if (below == null && above == null) continue;
+    rules.push({
+      id: typeof o.id === "string" && o.id ? o.id : `${metric}-${i}`,
+      imei: typeof o.imei === "string" && o.imei ? o.imei : undefined,
+      metric,
+      below,
+      above,
+      atRest: o.atRest === true,
+      cooldownMin: typeof o.cooldownMin === "number" && o.cooldownMin >= 0 ? o.cooldownMin : DEFAULT_COOLDOWN_MIN,
+      actions: parseWatchActions(o.actions, true),
+    });
+  }
+  return rules;
+}
+
+/**
+ * Parse a list of WatchActions; defaults to a single push when none are valid.
+ * With `urgentByDefault` (health alerts), push and agent actions are urgent unless they set `urgent: false`.
+ */
+export function parseWatchActions(raw: unknown, urgentByDefault = false): WatchAction[] {
+  const urgent = urgentByDefault ? { urgent: true } : {};
+  const actions: WatchAction[] = [];
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      if (!item || typeof item !== "object") continue;
+      const o = item as Record<string, unknown>;
+      if (o.type !== "push" && o.type !== "agent" && o.type !== "channel") continue;
+      if (o.type === "channel" && (typeof o.channel !== "string" || typeof o.to !== "string")) continue;
+      actions.push({
+        type: o.type,
+        message: typeof o.message === "string" ? o.message : undefined,
+        channel: typeof o.channel === "string" ? o.channel : undefined,
+        to: typeof o.to === "string" ? o.to : undefined,
+        ...(o.urgent === true || (urgentByDefault && o.type !== "channel" && o.urgent !== false) ? { urgent: true } : {}),
+      });
+    }
+  }
+  return actions.length > 0 ? actions : [{ type: "push", ...urgent }];
+}
+
+export function createAlertEngine(rules: AlertRule[], opts: AlertEngineOptions = {}) {
+  // `${ruleId}:${imei}` -> last fired (ms)
+  const lastFired = new Map<string, number>();
+  // Previous step count per watch, for atRest
+  const lastSteps = new Map<string, number>();
+
+  return {
+    /** Returns the rules that fire for this snapshot and starts their cooldowns. */
+    evaluate(imei: string, ctx: MessageContext, now = Date.now()): AlertEvent[] {
+      const prevSteps = lastSteps.get(imei);
+      const steps = ctx.steps?.value;
+      if (steps != null) lastSteps.set(imei, steps);
+      // Unknown activity counts as resting: a missed alert is worse than an extra one
+      const resting = steps == null || prevSteps == null || steps - prevSteps < REST_STEPS_THRESHOLD;
+
+      const events: AlertEvent[] = [];
+      for (const rule of rules) {
+        if (rule.imei && rule.imei !== imei) continue;
+        if (rule.atRest && !resting) continue;
+        const reading = readMetric(ctx, rule.metric);
+        if (!reading || isStaleReading(METRIC_FIELD[rule.metric], reading.received_at, now, opts.maxAgeMin)) continue;
+        const { value } = reading;
+        let direction: "below" | "above";
+        let threshold: number;
+        if (rule.below != null && value < rule.below) {
+          direction = "below";
+          threshold = rule.below;
+        } else if (rule.above != null && value > rule.above) {
+          direction = "above";
+          threshold = rule.above;
+        } else {
+          continue;
+        }
+        const key = `${rule.id}:${imei}`;
+        const cooldownMs = (rule.cooldownMin ?? DEFAULT_COOLDOWN_MIN) * 60 * 1000;
+        const last = lastFired.get(key);
+        if (last != null && now - last < cooldownMs) continue;
+        lastFired.set(key, now);
+        events.push({
+          rule,
+          imei,
+          value,
+          threshold,
+          direction,
+          message: defaultMessage(rule.metric, value, direction, threshold),
+          actions: rule.actions ?? [{ type: "push", urgent: true }],
+        });
+      }
+      return events;
+    },
+  };
+}
+
+export type AlertEngine = ReturnType<typeof createAlertEngine>;
@@ -1,12 +1,31 @@
 /**
  * Clawatch Channel Plugin — enables Reminder/Cron delivery to Clawatch devices.
- * channel: "clawatch", to: "<imei>"
+ * channel: "clawatch", to: "<imei>", optional accountId to pick the cloud account.
+ * Media cannot be shown on the watch, so it is delivered as spoken text (see media.ts).
  */
+import { DEFAULT_ACCOUNT_ID } from "./config.js";
+import { mediaDeliveryText } from "./media.js";
 import type { ClawatchRuntime } from "./runtime.js";
 
-export type GetRuntime = () => ClawatchRuntime | null;
+/** Runtime for an account, or (no account) the one that has the watch paired, else the default. */
+export type GetRuntime = (opts?: { accountId?: string | null; imei?: string }) => ClawatchRuntime | null;
+
+/** Short spoken summary of a media delivery's content, or null for none. */
+export type SummarizeMedia = (req: { imei: string; mediaUrl: string; caption?: string }) => Promise<string | null>;
+
+export function createClawatchChannelPlugin(
+  getRuntime: GetRuntime,
+  listAccountIds: () => string[] = () => [DEFAULT_ACCOUNT_ID],
+  summarizeMedia?: SummarizeMedia
+) {
+  function runtimeFor(accountId: string | null | undefined, imei: string): ClawatchRuntime {
+    const rt = getRuntime({ accountId, imei });
+    if (!rt) {
+      throw new Error(accountId ? `Clawatch account "${accountId}" not available` : "Clawatch runtime not available");
+    }
+    return rt;
+  }
 
-export function createClawatchChannelPlugin(getRuntime: GetRuntime) {
   return {
     id: "clawatch",
     meta: {
@@ -14,13 +33,14 @@ export function createClawatchChannelPlugin(getRuntime: GetRuntime) {
       label: "Clawatch",
       selectionLabel: "Clawatch (Smartwatch)",
       docsPath: "/plugins/clawatch-channel-requirements",
-      blurb: "Clawatch device via Clawatch plugin.",
+      blurb: "Clawatch device via Clawatch plugin. Media is spoken as text: caption, media type and name.",
       aliases: ["watch"],
       order: 200,
     },
     capabilities: {
       chatTypes: ["direct"],
-      media: false,
+      // Accepted, but spoken as text: the watch has no screen
+      media: true,
       reactions: false,
       threads: false,
       polls: false,
@@ -28,24 +48,27 @@ export function createClawatchChannelPlugin(getRuntime: GetRuntime) {
       blockStreaming: false,
     },
     config: {
-      listAccountIds: (_cfg?: unknown) => ["default"],
+      listAccountIds: (_cfg?: unknown) => listAccountIds(),
       resolveAccount: (_cfg: unknown, accountId?: string) => ({
-        accountId: accountId || "default",
+        accountId: accountId || DEFAULT_ACCOUNT_ID,
         enabled: true,
         config: {},
       }),
-      defaultAccountId: () => "default",
+      defaultAccountId: () => DEFAULT_ACCOUNT_ID,
       setAccountEnabled: async (opts: { cfg: unknown }) => opts.cfg,
       deleteAccount: async (opts: { cfg: unknown }) => opts.cfg,
       isConfigured: () => true,
-      describeAccount: () => ({
-        accountId: "default",
-        name: "Clawatch",
-        enabled: true,
-        configured: true,
-      }),
-      resolveAllowFrom: () => {
-        const rt = getRuntime();
+      describeAccount: (account?: { accountId?: string }) => {
+        const accountId = account?.accountId || DEFAULT_ACCOUNT_ID;
+        return {
+          accountId,
+          name: accountId === DEFAULT_ACCOUNT_ID ? "Clawatch" : `Clawatch (${accountId})`,
+          enabled: true,
+          configured: true,
+        };
+      },
+      resolveAllowFrom: (opts?: { accountId?: string | null }) => {
+        const rt = getRuntime({ accountId: opts?.accountId });
         if (rt) {
           return rt.getPairedWatches().map((w) => w.imei);
         }
@@ -79,47 +102,50 @@ export function createClawatchChannelPlugin(getRuntime: GetRuntime) {
     },
     outbound: {
       deliveryMode: "direct",
-      textChunkLimit: 500,
+      // The runtime speaks replyCharBudget at a time and keeps the rest for "more",
+      // so OpenClaw only needs to split very long deliveries
+      textChunkLimit: 4000,
       sendText: async ({
         to,
         text,
+        accountId,
       }: {
         to: string;
         text: string;
+        accountId?: string | null;
         deps?: unknown;
       }) => {
-        const rt = getRuntime();
-        if (!rt) {
-          throw new Error("Clawatch runtime not available");
-        }
-        rt.sendPush(to, text);
-        return {
-          channel: "clawatch",
-          messageId: `push-${to}-${Date.now()}`,
-        };
+        // Rejects when the cloud reports the push undeliverable, so OpenClaw sees the failure;
+        // queued (link down) and held (quiet hours) pushes still go out later
+        const result = await runtimeFor(accountId, to).sendPush(to, text);
+        return { channel: "clawatch", messageId: result.id, status: result.status };
       },
       sendMedia: async ({
         to,
         text,
         mediaUrl,
+        accountId,
       }: {
         to: string;
         text: string;
         mediaUrl?: string;
+        accountId?: string | null;
         deps?: unknown;
       }) => {
-        const rt = getRuntime();
-        if (!rt) {
-          throw new Error("Clawatch runtime not available");
-        }
+        const rt = runtimeFor(accountId, to);
+        let spoken = text;
         if (mediaUrl) {
-          throw new Error("Clawatch does not support media; use text only");
+          let summary: string | null = null;
+          try {
+            summary = (await summarizeMedia?.({ imei: to, mediaUrl, caption: text })) ?? null;
+          } catch (err) {
+            // The description alone is still worth delivering
+            rt.logger.error(`Clawatch media summary failed: ${err instanceof Error ? err.message : String(err)}`);
+          }
+          spoken = mediaDeliveryText({ mediaUrl, caption: text, summary, locale: rt.getWatchLocale(to) });
         }
-        rt.sendPush(to, text);
-        return {
-          channel: "clawatch",
-          messageId: `push-${to}-${Date.now()}`,
-        };
+        const result = await rt.sendPush(to, spoken);
+        return { channel: "clawatch", messageId: result.id, status: result.status };
       },
     },
   };
@@ -0,0 +1,117 @@
+/**
+ * Split streamed agent text into speakable chunks at sentence or clause boundaries,
+ * so the watch can start TTS before the full reply is ready.
+ */
+
+const DEFAULT_MIN_CHUNK_CHARS = 40;
+
+// ASCII punctuation only counts when followed by whitespace ("3.5" must not split), and a period
+// after a common abbreviation ("e.g. ", "Dr. ") never does. CJK punctuation is a boundary on its own.
+// Newlines always are.
+const BOUNDARY_RE = /[.!?;:,](?=\s)|[。！？；：，、]|\n/g;
+/** Text ending in one of these, just before a period, is not the end of a sentence. */
+const ABBREVIATION_RE = /(?:^|[\s("'])(?:e\.g|i\.e|mr|mrs|ms|dr|prof|st|vs|approx)$/i;
+
+/** Whether a boundary match is the period of an abbreviation. */
+function isAbbreviation(text: string, match: RegExpExecArray): boolean {
+  return match[0] === "." && ABBREVIATION_RE.test(text.slice(0, match.index));
+}
+
+export type SentenceChunker = {
+  /** Feed a streamed delta; emits zero or more chunks via the callback. */
+  push: (delta: string) => void;
+  /** Return whatever has not been emitted yet and reset the buffer. */
+  flush: () => string;
+};
+
+export function createSentenceChunker(
+  minChars: number | undefined,
+  emit: (chunk: string) => void
+): SentenceChunker {
+  const min = minChars != null && minChars > 0 ? minChars : DEFAULT_MIN_CHUNK_CHARS;
+  let buffer = "";
+
+  function lastBoundary(text: string): number {
+    let cut = -1;
+    BOUNDARY_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = BOUNDARY_RE.exec(text)) !== null) {
+      if (isAbbreviation(text, m)) continue;
+      const end = m.index + m[0].length;
+      if (text.slice(0, end).trim().length >= min) {
+        cut = end;
+      }
+    }
+    return cut;
+  }
+
+  return {
+    push(delta: string): void {
+      if (!delta) return;
+      buffer += delta;
+      const cut = lastBoundary(buffer);
+      if (cut < 0) return;
+      const chunk = buffer.slice(0, cut).trim();
+      buffer = buffer.slice(cut);
+      if (chunk) emit(chunk);
+    },
+
+    flush(): string {
+      const rest = buffer.trim();
+      buffer = "";
+      return rest;
+    },
+  };
+}
+
+/** Cut candidates for splitSpokenReply, most natural first: paragraph, line, sentence, clause, word. */
+const SPLIT_LEVELS = [/\n\s*\n/g, /\n/g, /[.!?](?=\s)|[。！？]/g, /[,;:](?=\s)|[，；：、]/g, /\s+/g];
+
+/** End of the most natural cut in text[0, limit], or -1 when there is none. */
+function cutPoint(text: string, limit: number): number {
+  let fallback = -1;
+  for (const re of SPLIT_LEVELS) {
+    let cut = -1;
+    re.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null && m.index < limit) {
+      if (isAbbreviation(text, m)) continue;
+      const end = Math.min(m.index + m[0].length, limit);
+      if (text.slice(0, end).trim()) cut = end;
+    }
+    // A coarser boundary only wins if it does not leave most of the budget unused
+    if (cut >= limit / 2) return cut;
+    fallback = Math.max(fallback, cut);
+  }
+  return fallback;
+}
+
+/**
+ * Split a reply into parts of at most `budget` characters at natural boundaries. The first
+ * part gets `firstBudget` (what is left after streaming); unless the whole text fits there,
+ * it is "" so the rest starts on a fresh part instead of mid-sentence.
+ */
+export function splitSpokenReply(text: string, budget: number, firstBudget = budget): string[] {
+  const parts: string[] = [];
+  let rest = text.trim();
+  let limit = firstBudget;
+  while (rest) {
+    if (rest.length <= limit) {
+      parts.push(rest);
+      break;
+    }
+    if (limit < budget) {
+      parts.push("");
+      limit = budget;
+      continue;
+    }
+    const cut = cutPoint(rest, limit);
+    // No boundary at all (e.g. one very long word): cut hard
+    const end = cut > 0 ? cut : limit;
+    parts.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  return parts;
+}
+
+export { DEFAULT_MIN_CHUNK_CHARS };
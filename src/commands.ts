@@ -0,0 +1,120 @@
+/**
+ * Watch command router: messages the watch marks isCommand are matched here and
+ * handled locally (no LLM turn). Config rules map phrases to tool calls and are
+ * checked before the built-ins.
+ */
+import type { CommandRule } from "./types.js";
+
+export type WatchCommand =
+  | { type: "new_conversation" }
+  | { type: "status" }
+  | { type: "switch_agent"; agentId: string | null }
+  | { type: "repeat" }
+  | { type: "more" }
+  | { type: "stop" }
+  | { type: "dnd"; on: boolean }
+  | { type: "tool"; rule: CommandRule };
+
+const BUILTIN_PHRASES: Record<"new_conversation" | "status" | "repeat" | "more" | "stop" | "dnd_on" | "dnd_off", string[]> = {
+  new_conversation: ["new", "new conversation", "new chat", "start over", "reset", "新对话", "新對話", "重新开始", "重新開始"],
+  status: ["status", "battery", "battery status", "状态", "狀態", "电量", "電量"],
+  repeat: ["repeat", "say that again", "again", "重复", "重複", "再说一遍", "再說一遍"],
+  // Includes the word each locale's "moreAvailable" hint tells the wearer to say
+  more: ["more", "continue", "go on", "keep going", "say more", "继续", "繼續", "lagi", "続けて", "계속", "más", "encore", "weiter"],
+  stop: ["stop", "stop it", "cancel", "never mind", "nevermind", "停", "停止", "取消", "算了"],
+  dnd_on: ["do not disturb", "dnd", "dnd on", "quiet mode", "免打扰", "开启免打扰", "勿擾", "開啟勿擾"],
+  dnd_off: ["dnd off", "do not disturb off", "end do not disturb", "quiet mode off", "关闭免打扰", "關閉勿擾"],
+};
+
+/** "switch to <agent>", "/agent <agent>", "切换到<agent>". */
+const SWITCH_AGENT_RE = /^(?:switch to|talk to|agent|use agent)\s+(.+)$|^(?:切换到|切換到)\s*(.+)$/;
+/** Agent names that go back to the watch profile's own agent. */
+const DEFAULT_AGENT_WORDS = new Set(["default", "my agent", "默认", "默認"]);
+
+/** Lowercase, drop a leading "/" and surrounding whitespace and punctuation. */
+export function normalizeCommand(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, "")
+    .replace(/\s+/g, " ");
+}
+
+/** A spoken "stop" / "cancel" on its own; case and surrounding punctuation are ignored. */
+export function isStopRequest(text: string): boolean {
+  return BUILTIN_PHRASES.stop.includes(normalizeCommand(text));
+}
+
+/** A spoken "more" / "continue" on its own, asking for the rest of a long reply. */
+export function isMoreRequest(text: string): boolean {
+  return BUILTIN_PHRASES.more.includes(normalizeCommand(text));
+}
+
+/** The command a message asks for, or null to hand it to the agent. */
+export function matchCommand(text: string, rules: CommandRule[] = []): WatchCommand | null {
+  const phrase = normalizeCommand(text);
+  if (!phrase) return null;
+  for (const rule of rules) {
+    if (rule.phrases.some((p) => normalizeCommand(p) === phrase)) return { type: "tool", rule };
+  }
+  for (const type of ["new_conversation", "status", "repeat", "more", "stop"] as const) {
+    if (BUILTIN_PHRASES[type].includes(phrase)) return { type };
+  }
+  if (BUILTIN_PHRASES.dnd_on.includes(phrase)) return { type: "dnd", on: true };
+  if (BUILTIN_PHRASES.dnd_off.includes(phrase)) return { type: "dnd", on: false };
+  const m = phrase.match(SWITCH_AGENT_RE);
+  const name = (m?.[1] ?? m?.[2])?.trim();
+  if (name) {
+    return { type: "switch_agent", agentId: DEFAULT_AGENT_WORDS.has(name) ? null : name.replace(/\s+/g, "-") };
+  }
+  return null;
+}
+
+/**
+ * The configured agent a spoken name refers to, ignoring case, spaces, hyphens and
+ * underscores ("homework helper" is "Homework_Helper"), or null when there is none.
+ */
+export function findAgent(spoken: string, agentIds: string[]): string | null {
+  const key = (name: string) => name.toLowerCase().replace(/[\s_-]+/g, "");
+  return agentIds.find((id) => key(id) === key(spoken)) ?? null;
+}
+
+/**
+ * Speakable text from a tool result: a string, the text parts of a
+ * { content: [{ type: "text", text }] } result, or null when there is none.
+ */
+export function toolResultText(result: unknown): string | null {
+  if (typeof result === "string") return result.trim() || null;
+  if (result && typeof result === "object" && Array.isArray((result as { content?: unknown }).content)) {
+    const text = ((result as { content: unknown[] }).content)
+      .map((part) =>
+        part && typeof part === "object" && (part as { type?: unknown }).type === "text"
+          ? String((part as { text?: unknown }).text ?? "")
+          : ""
+      )
+      .join(" ")
+      .trim();
+    return text || null;
+  }
+  return null;
+}
+
+/** Parse config.commands; rules without phrases or a tool are skipped. */
+export function parseCommandRules(raw: unknown): CommandRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules: CommandRule[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    const phrases = Array.isArray(o.phrases)
+      ? o.phrases.filter((p): p is string => typeof p === "string" && normalizeCommand(p).length > 0)
+      : [];
+    if (phrases.length === 0 || typeof o.tool !== "string" || !o.tool) continue;
+    rules.push({
+      phrases,
+      tool: o.tool,
+      args: o.args && typeof o.args === "object" && !Array.isArray(o.args) ? (o.args as Record<string, unknown>) : undefined,
+      reply: typeof o.reply === "string" && o.reply ? o.reply : undefined,
+    });
+  }
+  return rules;
+}
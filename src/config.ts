@@ -1,7 +1,42 @@
-import type { ClawatchConfig } from "./types.js";
+import { homedir } from "os";
+import { join } from "path";
+import type {
+  ClawatchAccount,
+  ClawatchAccountConfig,
+  ClawatchConfig,
+  ContextField,
+  QuietHours,
+  SessionStrategy,
+  WatchProfile,
+} from "./types.js";
+import { parseAlertRules } from "./alerts.js";
+import { parseGeofences } from "./geofence.js";
+import { parseCommandRules } from "./commands.js";
+import { parseSpeechConfig } from "./speech.js";
+import { parseQuietHours } from "./quiet.js";
 
 const DEFAULT_SESSION_PREFIX = "clawatch:";
+const DEFAULT_SHARED_SESSION_KEY = "main";
+const DEFAULT_SESSION_IDLE_MIN = 30;
+const SESSION_STRATEGIES: SessionStrategy[] = ["persistent", "daily", "idle", "shared"];
 const DEFAULT_AGENT_ID = "main";
+const DEFAULT_ACCOUNT_ID = "default";
+const DEFAULT_STREAM_MIN_CHUNK_CHARS = 40;
+const DEFAULT_REPLY_CHAR_BUDGET = 500;
+const DEFAULT_CONTROL_TIMEOUT_MS = 15000;
+const DEFAULT_PUSH_QUEUE_TTL_SEC = 24 * 60 * 60;
+// The cloud is not known to send push_ack, so receipts are opt-in
+const DEFAULT_PUSH_ACK_TIMEOUT_MS = 0;
+const DEFAULT_PUSH_RETRIES = 2;
+const DEFAULT_DEDUPE_TTL_SEC = 10 * 60;
+const DEFAULT_GATEWAY_CONNECT_TIMEOUT_MS = 10000;
+// Agents may run tools for minutes before speaking, so there is no first-token limit by default
+const DEFAULT_GATEWAY_FIRST_TOKEN_TIMEOUT_MS = 0;
+const DEFAULT_GATEWAY_TIMEOUT_MS = 120000;
+const DEFAULT_GATEWAY_RETRIES = 2;
+const DEFAULT_SENSOR_RETENTION_DAYS = 90;
+const DEFAULT_TRANSCRIPT_RETENTION_DAYS = 30;
+const CONTEXT_FIELDS: ContextField[] = ["location", "steps", "battery", "heart_rate", "temperature", "oxygen", "blood_pressure"];
 const PLUGIN_VERSION = "0.1.22";
 
 const API_URL_ENV_KEYS = ["CLAWATCH_API_URL", "OPENCLAW_CLAWATCH_API_URL"];
@@ -21,25 +56,246 @@ export function resolveConfig(raw: unknown): ClawatchConfig | null {
     deviceCode: typeof o.deviceCode === "string" ? o.deviceCode : undefined,
     apiToken: typeof o.apiToken === "string" && o.apiToken ? o.apiToken : undefined,
     agentId: typeof o.agentId === "string" ? o.agentId : DEFAULT_AGENT_ID,
+    switchableAgents: Array.isArray(o.switchableAgents)
+      ? o.switchableAgents.filter((a): a is string => typeof a === "string" && a.length > 0)
+      : undefined,
     sessionKeyPrefix:
       typeof o.sessionKeyPrefix === "string"
         ? o.sessionKeyPrefix
         : DEFAULT_SESSION_PREFIX,
+    sessionStrategy: parseSessionStrategy(o.sessionStrategy) ?? "persistent",
+    sessionIdleMin:
+      typeof o.sessionIdleMin === "number" && o.sessionIdleMin > 0
+        ? o.sessionIdleMin
+        : DEFAULT_SESSION_IDLE_MIN,
+    sharedSessionKey:
+      typeof o.sharedSessionKey === "string" && o.sharedSessionKey
+        ? o.sharedSessionKey
+        : DEFAULT_SHARED_SESSION_KEY,
     ttsSystemPrompt:
       typeof o.ttsSystemPrompt === "string" ? o.ttsSystemPrompt : undefined,
     interimStatusEnabled: o.interimStatusEnabled !== false,
+    streamReplies: o.streamReplies !== false,
+    streamMinChunkChars:
+      typeof o.streamMinChunkChars === "number" && o.streamMinChunkChars > 0
+        ? o.streamMinChunkChars
+        : DEFAULT_STREAM_MIN_CHUNK_CHARS,
+    replyCharBudget:
+      typeof o.replyCharBudget === "number" && o.replyCharBudget > 0
+        ? o.replyCharBudget
+        : DEFAULT_REPLY_CHAR_BUDGET,
+    controlTimeoutMs:
+      typeof o.controlTimeoutMs === "number" && o.controlTimeoutMs > 0
+        ? o.controlTimeoutMs
+        : DEFAULT_CONTROL_TIMEOUT_MS,
+    pushQueueTtlSec:
+      typeof o.pushQueueTtlSec === "number" && o.pushQueueTtlSec > 0
+        ? o.pushQueueTtlSec
+        : DEFAULT_PUSH_QUEUE_TTL_SEC,
+    pushAckTimeoutMs:
+      typeof o.pushAckTimeoutMs === "number" && o.pushAckTimeoutMs >= 0
+        ? o.pushAckTimeoutMs
+        : DEFAULT_PUSH_ACK_TIMEOUT_MS,
+    pushRetries:
+      typeof o.pushRetries === "number" && Number.isInteger(o.pushRetries) && o.pushRetries >= 0
+        ? o.pushRetries
+        : DEFAULT_PUSH_RETRIES,
+    gatewayConnectTimeoutMs:
+      typeof o.gatewayConnectTimeoutMs === "number" && o.gatewayConnectTimeoutMs > 0
+        ? o.gatewayConnectTimeoutMs
+        : DEFAULT_GATEWAY_CONNECT_TIMEOUT_MS,
+    gatewayFirstTokenTimeoutMs:
+      typeof o.gatewayFirstTokenTimeoutMs === "number" && o.gatewayFirstTokenTimeoutMs > 0
+        ? o.gatewayFirstTokenTimeoutMs
+        : DEFAULT_GATEWAY_FIRST_TOKEN_TIMEOUT_MS,
+    gatewayTimeoutMs:
+      typeof o.gatewayTimeoutMs === "number" && o.gatewayTimeoutMs > 0
+        ? o.gatewayTimeoutMs
+        : DEFAULT_GATEWAY_TIMEOUT_MS,
+    gatewayRetries:
+      typeof o.gatewayRetries === "number" && Number.isInteger(o.gatewayRetries) && o.gatewayRetries >= 0
+        ? o.gatewayRetries
+        : DEFAULT_GATEWAY_RETRIES,
+    turnPolicy: o.turnPolicy === "supersede" ? "supersede" : "queue",
+    dedupeTtlSec:
+      typeof o.dedupeTtlSec === "number" && o.dedupeTtlSec > 0 ? o.dedupeTtlSec : DEFAULT_DEDUPE_TTL_SEC,
+    sensorHistoryEnabled: o.sensorHistoryEnabled !== false,
+    sensorRetentionDays:
+      typeof o.sensorRetentionDays === "number" && o.sensorRetentionDays > 0
+        ? o.sensorRetentionDays
+        : DEFAULT_SENSOR_RETENTION_DAYS,
+    transcriptEnabled: o.transcriptEnabled !== false,
+    transcriptRetentionDays:
+      typeof o.transcriptRetentionDays === "number" && o.transcriptRetentionDays > 0
+        ? o.transcriptRetentionDays
+        : DEFAULT_TRANSCRIPT_RETENTION_DAYS,
+    quietHours: parseQuietHours(o.quietHours) ?? [],
+    mediaSummary: o.mediaSummary === true,
+    tokenRejectedNotify: parseTokenRejectedNotify(o.tokenRejectedNotify),
+    speech: parseSpeechConfig(o.speech),
+    commands: parseCommandRules(o.commands),
+    alerts: parseAlertRules(o.alerts),
+    geofences: parseGeofences(o.geofences),
+    geocoder: o.geocoder === "off" ? "off" : "offline",
+    geocodeDatasetPath:
+      typeof o.geocodeDatasetPath === "string" && o.geocodeDatasetPath ? o.geocodeDatasetPath : undefined,
+    contextMaxAgeMin: parseContextMaxAge(o.contextMaxAgeMin),
+    staleContext: o.staleContext === "drop" ? "drop" : "mark",
+    watches: parseWatchProfiles(o.watches),
+    accounts: parseAccounts(o.accounts),
   };
 }
 
+function parseTokenRejectedNotify(raw: unknown): ClawatchConfig["tokenRejectedNotify"] {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = raw as Record<string, unknown>;
+  return typeof o.channel === "string" && o.channel && typeof o.to === "string" && o.to
+    ? { channel: o.channel, to: o.to }
+    : undefined;
+}
+
+function parseContextMaxAge(raw: unknown): Partial<Record<ContextField, number>> {
+  const out: Partial<Record<ContextField, number>> = {};
+  if (!raw || typeof raw !== "object") return out;
+  const o = raw as Record<string, unknown>;
+  for (const field of CONTEXT_FIELDS) {
+    const v = o[field];
+    if (typeof v === "number" && v > 0) out[field] = v;
+  }
+  return out;
+}
+
+function parseSessionStrategy(raw: unknown): SessionStrategy | undefined {
+  return SESSION_STRATEGIES.includes(raw as SessionStrategy) ? (raw as SessionStrategy) : undefined;
+}
+
+/** Whether Intl knows this IANA zone. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseWatchProfiles(raw: unknown): Record<string, WatchProfile> {
+  const out: Record<string, WatchProfile> = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+  for (const [imei, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!value || typeof value !== "object") continue;
+    const o = value as Record<string, unknown>;
+    out[imei] = {
+      agentId: typeof o.agentId === "string" && o.agentId ? o.agentId : undefined,
+      systemPrompt: typeof o.systemPrompt === "string" ? o.systemPrompt : undefined,
+      locale: typeof o.locale === "string" && o.locale ? o.locale : undefined,
+      units: o.units === "imperial" ? "imperial" : o.units === "metric" ? "metric" : undefined,
+      contextFields: Array.isArray(o.contextFields)
+        ? o.contextFields.filter((f): f is ContextField => CONTEXT_FIELDS.includes(f as ContextField))
+        : undefined,
+      timeZone: typeof o.timeZone === "string" && isValidTimeZone(o.timeZone) ? o.timeZone : undefined,
+      replyCharBudget: typeof o.replyCharBudget === "number" && o.replyCharBudget > 0 ? o.replyCharBudget : undefined,
+      quietHours: parseQuietHours(o.quietHours),
+      sessionStrategy: parseSessionStrategy(o.sessionStrategy),
+    };
+  }
+  return out;
+}
+
+/** A watch's profile with global settings filled in for anything it does not set. */
+export function resolveWatchProfile(
+  config: ClawatchConfig,
+  imei: string
+): WatchProfile & {
+  agentId: string;
+  units: "metric" | "imperial";
+  replyCharBudget: number;
+  quietHours: QuietHours[];
+  sessionStrategy: SessionStrategy;
+} {
+  const profile = config.watches?.[imei] ?? {};
+  return {
+    ...profile,
+    agentId: profile.agentId ?? config.agentId ?? DEFAULT_AGENT_ID,
+    systemPrompt: profile.systemPrompt ?? config.ttsSystemPrompt,
+    units: profile.units ?? "metric",
+    replyCharBudget: profile.replyCharBudget ?? config.replyCharBudget ?? DEFAULT_REPLY_CHAR_BUDGET,
+    quietHours: profile.quietHours ?? config.quietHours ?? [],
+    sessionStrategy: profile.sessionStrategy ?? config.sessionStrategy ?? "persistent",
+  };
+}
+
+/** Agents a wearer may switch to by voice: agentId, every watch profile's agent, then switchableAgents. */
+export function switchableAgentIds(config: ClawatchConfig): string[] {
+  const ids = [
+    config.agentId ?? DEFAULT_AGENT_ID,
+    ...Object.values(config.watches ?? {}).map((p) => p.agentId),
+    ...(config.switchableAgents ?? []),
+  ];
+  return [...new Set(ids.filter((id): id is string => !!id))];
+}
+
+function parseAccounts(raw: unknown): Record<string, ClawatchAccountConfig> {
+  const out: Record<string, ClawatchAccountConfig> = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+  for (const [id, value] of Object.entries(raw as Record<string, unknown>)) {
+    // The top-level apiUrl/apiToken own the default id
+    if (id === DEFAULT_ACCOUNT_ID || !/^[\w-]+$/.test(id) || !value || typeof value !== "object") continue;
+    const o = value as Record<string, unknown>;
+    out[id] = {
+      enabled: o.enabled !== false,
+      apiUrl: typeof o.apiUrl === "string" && o.apiUrl ? o.apiUrl : undefined,
+      apiToken: typeof o.apiToken === "string" && o.apiToken ? o.apiToken : undefined,
+    };
+  }
+  return out;
+}
+
+/** All accounts, default first. */
+export function listAccounts(config: ClawatchConfig): ClawatchAccount[] {
+  const accounts: ClawatchAccount[] = [
+    { id: DEFAULT_ACCOUNT_ID, enabled: config.enabled !== false, apiUrl: config.apiUrl, apiToken: config.apiToken },
+  ];
+  for (const [id, account] of Object.entries(config.accounts ?? {})) {
+    accounts.push({
+      id,
+      enabled: config.enabled !== false && account.enabled !== false,
+      apiUrl: account.apiUrl ?? DEFAULT_API_URL,
+      apiToken: account.apiToken,
+    });
+  }
+  return accounts;
+}
+
+/** One account by id (default when omitted), or null if no such account is configured. */
+export function resolveAccount(config: ClawatchConfig, accountId?: string): ClawatchAccount | null {
+  const id = accountId?.trim() || DEFAULT_ACCOUNT_ID;
+  return listAccounts(config).find((a) => a.id === id) ?? null;
+}
+
+/** `openclaw config set` path for an account-level key (apiToken, apiUrl). */
+export function accountConfigPath(accountId: string, key: keyof ClawatchAccountConfig): string {
+  const base = "plugins.entries.clawatch.config";
+  return accountId === DEFAULT_ACCOUNT_ID ? `${base}.${key}` : `${base}.accounts.${accountId}.${key}`;
+}
+
 export function getSessionKey(prefix: string, imei: string): string {
   return `${prefix}${imei}`;
 }
 
-export function parseImeiFromSessionKey(sessionKey: string): string | null {
+/** Directory for plugin state (queues, stores). Honors OPENCLAW_STATE_DIR like OpenClaw itself. */
+export function resolveStateDir(): string {
+  const base = process.env.OPENCLAW_STATE_DIR || join(homedir(), ".openclaw");
+  return join(base, "clawatch");
+}
+
+export function parseImeiFromSessionKey(sessionKey: string, prefix = DEFAULT_SESSION_PREFIX): string | null {
   if (!sessionKey || typeof sessionKey !== "string") return null;
-  // Match formats: "clawatch:860000035452456" or "session:clawatch:860000035452456"
-  const m = sessionKey.match(/^(?:session:)?clawatch:(\d{15})$/);
+  // Match formats: "<prefix>860000035452456", "session:<prefix>860000035452456",
+  // and either with a day (":2026-10-19") and/or new-conversation suffix (":m2k3j4")
+  const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const m = sessionKey.match(new RegExp(`^(?:session:)?${escaped}(\\d{15})(?::[\\w-]+)*$`));
   return m ? m[1]! : null;
 }
 
-export { DEFAULT_SESSION_PREFIX, DEFAULT_AGENT_ID, PLUGIN_VERSION, DEFAULT_API_URL };
+export { DEFAULT_SESSION_PREFIX, DEFAULT_SHARED_SESSION_KEY, DEFAULT_AGENT_ID, DEFAULT_ACCOUNT_ID, PLUGIN_VERSION, DEFAULT_API_URL };
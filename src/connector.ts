@@ -7,9 +7,11 @@ import type {
   UnboundFrame,
   InboundMessageFrame,
   ControlAckFrame,
+  PushAckFrame,
   MessageContext,
 } from "./types.js";
 import { PLUGIN_VERSION } from "./config.js";
+import { validateFrame, FrameValidationError } from "./validate.js";
 
 export type ConnectorCallbacks = {
   onRegistered: (watches: { imei: string; label?: string }[]) => void;
@@ -28,9 +30,28 @@ export type ConnectorCallbacks = {
     isCommand?: boolean,
     context?: MessageContext
   ) => void;
-  onControlAck?: (id: string, ok: boolean) => void;
+  onControlAck?: (
+    id: string,
+    ok: boolean,
+    result?: Record<string, unknown>,
+    error?: string
+  ) => void;
+  onPushAck?: (id: string, ok: boolean, error?: string) => void;
+  /** Called for each frame that fails schema validation (after it has been dropped). */
+  onInvalidFrame?: (err: FrameValidationError) => void;
 };
 
+/** The cloud refused the token at register (invalid_token / unauthorized); retrying cannot help. */
+export class AuthRejectedError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "AuthRejectedError";
+    this.code = code;
+  }
+}
+
 export class ClawatchConnector {
   private ws: WebSocket | null = null;
   private token: string;
@@ -81,12 +102,22 @@ export class ClawatchConnector {
       };
 
       this.ws.onmessage = (event) => {
+        let raw: unknown;
         try {
-          const frame = JSON.parse(event.data as string) as ClawatchWSFrame;
-          this.handleFrame(frame);
+          raw = JSON.parse(event.data as string);
         } catch {
           this.callbacks.onError("invalid_frame", "Invalid JSON from server");
+          return;
+        }
+        let frame: ClawatchWSFrame;
+        try {
+          frame = validateFrame(raw);
+        } catch (err) {
+          if (!(err instanceof FrameValidationError)) throw err;
+          this.rejectFrame(err);
+          return;
         }
+        this.handleFrame(frame);
       };
 
       this.ws.onclose = () => {
@@ -117,15 +148,30 @@ export class ClawatchConnector {
         resolve();
       };
       this.callbacks.onError = (code, message, id) => {
-        clearTimeout(timeout);
+        // A frame we dropped ourselves is not the cloud answering register
+        if (code !== "invalid_frame") clearTimeout(timeout);
         originalOnError(code, message, id);
         if (code === "invalid_token" || code === "unauthorized") {
-          reject(new Error(message));
+          reject(new AuthRejectedError(code, message));
         }
       };
     });
   }
 
+  private rejectFrame(err: FrameValidationError): void {
+    this.callbacks.onInvalidFrame?.(err);
+    this.callbacks.onError("invalid_frame", err.message, err.frameId);
+    // A watch message we cannot process would otherwise never get a reply
+    if (err.frameType === "message" && err.frameId) {
+      this.send({
+        type: "error",
+        id: err.frameId,
+        code: "invalid_frame",
+        message: err.issues.join("; "),
+      });
+    }
+  }
+
   private handleFrame(frame: ClawatchWSFrame): void {
     switch (frame.type) {
       case "registered": {
@@ -148,7 +194,7 @@ export class ClawatchConnector {
       }
       case "message": {
         const f = frame as InboundMessageFrame;
-        this.callbacks.onDebug?.("Clawatch received message: id=%s imei=%s text=%s", f.id, f.imei, (f.text ?? "").slice(0, 50));
+        this.callbacks.onDebug?.("Clawatch received message: id=%s imei=%s text=%s", f.id, f.imei, f.text.slice(0, 50));
         this.callbacks.onMessage(
           f.id,
           f.imei,
@@ -162,7 +208,13 @@ export class ClawatchConnector {
       case "control_ack":
         if (this.callbacks.onControlAck) {
           const f = frame as ControlAckFrame;
-          this.callbacks.onControlAck(f.id, f.ok);
+          this.callbacks.onControlAck(f.id, f.ok, f.result, f.error);
+        }
+        break;
+      case "push_ack":
+        if (this.callbacks.onPushAck) {
+          const f = frame as PushAckFrame;
+          this.callbacks.onPushAck(f.id, f.ok, f.error);
         }
         break;
       default:
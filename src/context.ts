@@ -0,0 +1,149 @@
+/**
+ * Format the watch's MessageContext (sensor snapshot) as a system message
+ * describing the user's physical world state, with the age of each reading.
+ */
+import { toMillis } from "./sensors.js";
+import type { ContextField, MessageContext } from "./types.js";
+
+export type ContextFormatOptions = {
+  /** Name of the geofence the watch is inside; replaces raw coordinates. */
+  placeName?: string;
+  /** Reverse-geocoded place near the coordinates (e.g. "Orchard Road, Singapore"). */
+  locationName?: string;
+  /** Wearer's IANA time zone for local times. Default: system time zone. */
+  timeZone?: string;
+  /** Per-field maximum age in minutes, over the defaults. */
+  maxAgeMin?: Partial<Record<ContextField, number>>;
+  /** "mark" stale readings (default) or "drop" them. */
+  stale?: "mark" | "drop";
+  /** Units for temperature. Default: metric. */
+  units?: "metric" | "imperial";
+  /** Only share these fields. Default: all. */
+  fields?: ContextField[];
+  now?: number;
+};
+
+/** Minutes before a reading counts as stale. Steps are a running daily total, so they age slowly. */
+export const DEFAULT_CONTEXT_MAX_AGE_MIN: Record<ContextField, number> = {
+  location: 30,
+  steps: 120,
+  battery: 60,
+  heart_rate: 30,
+  temperature: 60,
+  oxygen: 60,
+  blood_pressure: 240,
+};
+
+const PHYSICAL_STATE_PREFIX =
+  "The following is the user's current physical world state (from watch sensors). Use this context to understand and answer their questions. If they ask about steps, battery, or health metrics, you may cite these values. Each reading shows how long ago it was taken; readings marked [stale] may no longer be accurate, so say so if you use them.\n\n";
+
+const MINUTE_MS = 60 * 1000;
+
+/** Whether a reading is older than its field's maximum age. Readings without a timestamp never are. */
+export function isStaleReading(
+  field: ContextField,
+  receivedAt: number | undefined,
+  now: number,
+  maxAgeMin?: Partial<Record<ContextField, number>>
+): boolean {
+  if (receivedAt == null) return false;
+  const maxAge = maxAgeMin?.[field] ?? DEFAULT_CONTEXT_MAX_AGE_MIN[field];
+  return now - toMillis(receivedAt) > maxAge * MINUTE_MS;
+}
+
+export function formatCoordinates(lat: number, lng: number, digits = 4): string {
+  const latDir = lat >= 0 ? "N" : "S";
+  const lngDir = lng >= 0 ? "E" : "W";
+  return `${Math.abs(lat).toFixed(digits)}°${latDir}, ${Math.abs(lng).toFixed(digits)}°${lngDir}`;
+}
+
+/** "just now", "3 min ago", "5 h ago", "2 days ago". Future timestamps (clock skew) count as now. */
+export function formatAge(ageMs: number): string {
+  const min = Math.floor(Math.max(0, ageMs) / MINUTE_MS);
+  if (min < 1) return "just now";
+  if (min < 60) return `${min} min ago`;
+  const hours = Math.floor(min / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+}
+
+/** Local wall-clock time; the date is included when it is not the same day as `now`. */
+export function formatLocalTime(t: number, now: number, timeZone?: string): string {
+  const day = new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" });
+  const time = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(t);
+  if (day.format(t) === day.format(now)) return time;
+  const date = new Intl.DateTimeFormat("en-US", { timeZone, month: "short", day: "numeric" }).format(t);
+  return `${date} ${time}`;
+}
+
+/** Watch reports Celsius. */
+function formatTemperature(celsius: number, units?: "metric" | "imperial"): string {
+  if (units === "imperial") return `${Math.round(((celsius * 9) / 5 + 32) * 10) / 10}°F`;
+  return `${celsius}°C`;
+}
+
+function currentTimeLine(now: number, timeZone?: string): string {
+  const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const text = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(now);
+  return `- Local time now: ${text} (${zone})`;
+}
+
+export function formatContext(ctx: MessageContext, opts: ContextFormatOptions = {}): string {
+  const now = opts.now ?? Date.now();
+  const lines: string[] = [];
+
+  /** Append a reading with its age, or skip it when stale and dropping. */
+  function push(field: ContextField, text: string, receivedAt?: number): void {
+    if (opts.fields && !opts.fields.includes(field)) return;
+    if (receivedAt == null) {
+      lines.push(`- ${text}`);
+      return;
+    }
+    const t = toMillis(receivedAt);
+    const stale = isStaleReading(field, receivedAt, now, opts.maxAgeMin);
+    if (stale && opts.stale === "drop") return;
+    const age = `${formatAge(now - t)} (${formatLocalTime(t, now, opts.timeZone)})`;
+    lines.push(`- ${text}, ${age}${stale ? " [stale]" : ""}`);
+  }
+
+  if (ctx.location) {
+    const { lat, lng, received_at } = ctx.location;
+    if (opts.placeName) {
+      push("location", `Location: at ${opts.placeName}`, received_at);
+    } else if (opts.locationName) {
+      push("location", `Location: near ${opts.locationName} (${formatCoordinates(lat, lng, 2)})`, received_at);
+    } else {
+      push("location", `Location: ${formatCoordinates(lat, lng)}`, received_at);
+    }
+  }
+  if (ctx.steps != null) {
+    push("steps", `Steps today: ${ctx.steps.value}`, ctx.steps.received_at);
+  }
+  if (ctx.battery != null) {
+    push("battery", `Battery: ${ctx.battery.value}%`, ctx.battery.received_at);
+  }
+  const h = ctx.health;
+  if (h) {
+    if (h.heart_rate != null) push("heart_rate", `Heart rate: ${h.heart_rate.value} bpm`, h.heart_rate.received_at);
+    if (h.temperature != null)
+      push("temperature", `Temperature: ${formatTemperature(h.temperature.value, opts.units)}`, h.temperature.received_at);
+    if (h.oxygen != null) push("oxygen", `Blood oxygen: ${h.oxygen.value}%`, h.oxygen.received_at);
+    if (h.blood_pressure)
+      push(
+        "blood_pressure",
+        `Blood pressure: ${h.blood_pressure.systolic}/${h.blood_pressure.diastolic} mmHg`,
+        h.blood_pressure.received_at
+      );
+  }
+  if (lines.length === 0) return "";
+  return PHYSICAL_STATE_PREFIX + [currentTimeLine(now, opts.timeZone), ...lines].join("\n");
+}
@@ -1,4 +1,5 @@
 import type { MessageContext } from "./types.js";
+import { formatContext, type ContextFormatOptions } from "./context.js";
 
 /**
  * Call OpenClaw Gateway /v1/chat/completions to get agent reply.
@@ -10,43 +11,80 @@ export type GatewayConfig = {
   agentId: string;
   /** Optional system prompt for TTS-friendly output (short, natural speech). */
   ttsSystemPrompt?: string;
+  /** Locale the agent should reply in (from the watch profile). */
+  locale?: string;
 };
 
-const DEFAULT_TTS_PROMPT =
-  "You are replying via a voice-only smartwatch with no screen. The user hears your response through text-to-speech.";
+export type ChatCompletionOptions = {
+  /** Called with each streamed content delta as it arrives. */
+  onDelta?: (delta: string) => void;
+  /** Extra inputs for the physical-state block (e.g. current place name). */
+  contextOptions?: ContextFormatOptions;
+  /** Aborts the request and the streamed read. */
+  signal?: AbortSignal;
+  timeouts?: GatewayTimeouts;
+  /** Extra attempts when the Gateway certainly did not take the turn (see GatewayError.retryable). Default: 0. */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one. Default: 500. */
+  retryDelayMs?: number;
+};
 
-const PHYSICAL_STATE_PREFIX =
-  "The following is the user's current physical world state (from watch sensors). Use this context to understand and answer their questions. If they ask about steps, battery, or health metrics, you may cite these values.\n\n";
+/** Each limit is off when unset. */
+export type GatewayTimeouts = {
+  /** Until the response headers arrive. */
+  connectMs?: number;
+  /** Until the first content delta. */
+  firstTokenMs?: number;
+  /** The whole request, including the streamed reply. */
+  totalMs?: number;
+};
 
-function formatContext(ctx: MessageContext): string {
-  const lines: string[] = [];
-  if (ctx.location) {
-    const latDir = ctx.location.lat >= 0 ? "N" : "S";
-    const lngDir = ctx.location.lng >= 0 ? "E" : "W";
-    lines.push(`- Location: ${Math.abs(ctx.location.lat).toFixed(4)}°${latDir}, ${Math.abs(ctx.location.lng).toFixed(4)}°${lngDir}`);
-  }
-  if (ctx.steps != null) {
-    lines.push(`- Steps today: ${ctx.steps.value}`);
-  }
-  if (ctx.battery != null) {
-    lines.push(`- Battery: ${ctx.battery.value}%`);
+/** HTTP statuses that mean the Gateway or a proxy in front of it is briefly unavailable. */
+const TRANSIENT_STATUSES = new Set([408, 429, 502, 503, 504]);
+/** Proxy statuses returned without the turn reaching the agent, so it is safe to send again. */
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export class GatewayError extends Error {
+  /** "network": Gateway unreachable; "timeout": a GatewayTimeouts limit; "http": error status. */
+  readonly kind: "network" | "timeout" | "http";
+  readonly status: number | undefined;
+  /** The Gateway is (probably briefly) unavailable: not the agent's fault. */
+  readonly transient: boolean;
+  /**
+   * The Gateway certainly did not start the turn, so sending it again cannot run it twice:
+   * no response headers yet, or a proxy 502/503/504. Agent turns are not idempotent.
+   */
+  readonly retryable: boolean;
+
+  constructor(message: string, kind: "network" | "timeout" | "http", status?: number, retryable?: boolean) {
+    super(message);
+    this.name = "GatewayError";
+    this.kind = kind;
+    this.status = status;
+    this.transient = kind !== "http" || (status != null && TRANSIENT_STATUSES.has(status));
+    this.retryable = retryable ?? (kind === "http" && status != null && RETRYABLE_STATUSES.has(status));
   }
-  const h = ctx.health;
-  if (h) {
-    if (h.heart_rate != null) lines.push(`- Heart rate: ${h.heart_rate.value} bpm`);
-    if (h.temperature != null) lines.push(`- Temperature: ${h.temperature.value}°C`);
-    if (h.oxygen != null) lines.push(`- Blood oxygen: ${h.oxygen.value}%`);
-    if (h.blood_pressure)
-      lines.push(`- Blood pressure: ${h.blood_pressure.systolic}/${h.blood_pressure.diastolic} mmHg`);
+}
+
+const DEFAULT_TTS_PROMPT =
+  "You are replying via a voice-only smartwatch with no screen. The user hears your response through text-to-speech.";
+
+/** System prompt for a turn: the TTS prompt plus the profile's locale, or "" for none. */
+export function buildSystemPrompt(config: Pick<GatewayConfig, "ttsSystemPrompt" | "locale">): string {
+  const parts = [config.ttsSystemPrompt ?? DEFAULT_TTS_PROMPT];
+  if (config.locale) {
+    parts.push(`Always reply in the language and conventions of locale ${config.locale}.`);
   }
-  return lines.length > 0 ? PHYSICAL_STATE_PREFIX + lines.join("\n") : "";
+  return parts.filter((p) => p.length > 0).join("\n\n");
 }
 
 export async function chatCompletion(
   config: GatewayConfig,
   sessionKey: string,
   userMessage: string,
-  context?: MessageContext
+  context?: MessageContext,
+  options: ChatCompletionOptions = {}
 ): Promise<string> {
   const baseUrl = config.baseUrl.replace(/\/$/, "");
   const urls = [
@@ -61,13 +99,13 @@ export async function chatCompletion(
     "x-openclaw-agent-id": config.agentId,
   };
 
-  const systemPrompt = config.ttsSystemPrompt ?? DEFAULT_TTS_PROMPT;
+  const systemPrompt = buildSystemPrompt(config);
   const messages: Array<{ role: "user" | "system"; content: string }> = [];
 
   if (systemPrompt.length > 0) {
     messages.push({ role: "system", content: systemPrompt });
   }
-  const physicalState = context ? formatContext(context) : "";
+  const physicalState = context ? formatContext(context, options.contextOptions) : "";
   if (physicalState) {
     messages.push({ role: "system", content: physicalState });
   }
@@ -79,75 +117,199 @@ export async function chatCompletion(
     stream: true,
   });
 
-  let lastError: Error | null = null;
-  for (const url of urls) {
+  const retries = options.retries ?? 0;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  for (let attempt = 0; ; attempt++) {
+    let streamed = false;
     try {
-      const res = await fetch(url, {
-        method: "POST",
-        headers,
-        body,
+      return await requestOnce(urls, headers, body, options, () => {
+        streamed = true;
       });
+    } catch (err) {
+      // A retry after streaming would make the watch speak the start of the reply twice
+      const retryable = err instanceof GatewayError && err.retryable && !streamed && !options.signal?.aborted;
+      if (!retryable || attempt >= retries) throw err;
+      await delay(retryDelayMs * 2 ** attempt, options.signal);
+    }
+  }
+}
 
-      if (res.ok) {
-        if (!res.body) {
-          throw new Error("Response body is null");
-        }
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let content = "";
-        let buffer = "";
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            const trimmed = line.trim();
-            if (!trimmed || trimmed === "data: [DONE]") continue;
-            if (!trimmed.startsWith("data: ")) continue;
-
-            try {
-              const jsonStr = trimmed.slice(6);
-              const data = JSON.parse(jsonStr) as {
-                choices?: Array<{ delta?: { content?: string } }>;
-              };
-              const delta = data.choices?.[0]?.delta?.content;
-              if (delta) {
-                content += delta;
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** One attempt over the endpoint paths, under the configured timeouts. */
+async function requestOnce(
+  urls: string[],
+  headers: Record<string, string>,
+  body: string,
+  options: ChatCompletionOptions,
+  onFirstDelta: () => void
+): Promise<string> {
+  const { connectMs, firstTokenMs, totalMs } = options.timeouts ?? {};
+  const controller = new AbortController();
+  let timedOut: GatewayError | null = null;
+  // Set once the Gateway accepts the request: from then on it may be running the turn
+  let accepted = false;
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  function limit(ms: number | undefined, what: string): ReturnType<typeof setTimeout> | undefined {
+    if (!ms) return undefined;
+    const timer = setTimeout(() => {
+      timedOut = new GatewayError(`Gateway ${what} timed out after ${ms} ms`, "timeout", undefined, what === "connect");
+      controller.abort();
+    }, ms);
+    timers.push(timer);
+    return timer;
+  }
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) onAbort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+  limit(totalMs, "reply");
+  const firstTokenTimer = limit(firstTokenMs, "first token");
+
+  try {
+    let lastError: Error | null = null;
+    for (const url of urls) {
+      // Each endpoint path gets its own connect limit, including the 405 fallback
+      const connectTimer = limit(connectMs, "connect");
+      try {
+        const res = await fetch(url, {
+          method: "POST",
+          headers,
+          body,
+          signal: controller.signal,
+        });
+        clearTimeout(connectTimer);
+
+        if (res.ok) {
+          accepted = true;
+          if (!res.body) {
+            throw new Error("Response body is null");
+          }
+          const reader = res.body.getReader();
+          const decoder = new TextDecoder();
+          let content = "";
+          let buffer = "";
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() || "";
+
+            for (const line of lines) {
+              const trimmed = line.trim();
+              if (!trimmed || trimmed === "data: [DONE]") continue;
+              if (!trimmed.startsWith("data: ")) continue;
+
+              try {
+                const jsonStr = trimmed.slice(6);
+                const data = JSON.parse(jsonStr) as {
+                  choices?: Array<{ delta?: { content?: string } }>;
+                };
+                const delta = data.choices?.[0]?.delta?.content;
+                if (delta) {
+                  if (!content) {
+                    clearTimeout(firstTokenTimer);
+                    onFirstDelta();
+                  }
+                  content += delta;
+                  options.onDelta?.(delta);
+                }
+              } catch {
+                // Skip invalid JSON lines
               }
-            } catch {
-              // Skip invalid JSON lines
             }
           }
+
+          return content;
         }
 
-        return content;
-      }
+        // If 405, try next URL; otherwise throw immediately
+        if (res.status === 405) {
+          const text = await res.text();
+          lastError = new GatewayError(`Gateway error ${res.status} for ${url}: ${text}`, "http", res.status);
+          continue; // Try next URL
+        }
 
-      // If 405, try next URL; otherwise throw immediately
-      if (res.status === 405) {
+        // For other errors, throw immediately
         const text = await res.text();
-        lastError = new Error(`Gateway error ${res.status} for ${url}: ${text}`);
-        continue; // Try next URL
-      }
-      
-      // For other errors, throw immediately
-      const text = await res.text();
-      throw new Error(`Gateway error ${res.status} for ${url}: ${text}`);
-    } catch (err) {
-      // If it's a 405 error from the catch, continue to next URL
-      if (err instanceof Error && err.message.includes("405")) {
-        lastError = err;
-        continue;
+        throw new GatewayError(`Gateway error ${res.status} for ${url}: ${text}`, "http", res.status);
+      } catch (err) {
+        // If it's a 405 error from the catch, continue to next URL
+        if (err instanceof GatewayError && err.status === 405) {
+          lastError = err;
+          continue;
+        }
+        throw err;
       }
-      throw err;
     }
+
+    // If we get here, all URLs returned 405
+    throw lastError || new Error("All endpoint paths returned 405 Method Not Allowed. Check gateway.http.endpoints.chatCompletions.enabled");
+  } catch (err) {
+    if (timedOut) throw timedOut;
+    if (options.signal?.aborted || err instanceof GatewayError) throw err;
+    // fetch() rejects with a TypeError when the Gateway cannot be reached
+    if (err instanceof TypeError) throw new GatewayError(`Gateway unreachable: ${err.message}`, "network", undefined, !accepted);
+    throw err;
+  } finally {
+    for (const timer of timers) clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
   }
+}
 
-  // If we get here, all URLs returned 405
-  throw lastError || new Error("All endpoint paths returned 405 Method Not Allowed. Check gateway.http.endpoints.chatCompletions.enabled");
+/**
+ * Call one tool directly through the Gateway's POST /tools/invoke, without an agent turn.
+ * Resolves with the tool's result; rejects with a GatewayError when the call fails.
+ */
+export async function invokeTool(
+  config: Pick<GatewayConfig, "baseUrl" | "token">,
+  sessionKey: string,
+  tool: string,
+  args: Record<string, unknown> = {},
+  options: { timeoutMs?: number } = {}
+): Promise<unknown> {
+  const url = `${config.baseUrl.replace(/\/$/, "")}/tools/invoke`;
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${config.token}`,
+      },
+      body: JSON.stringify({ tool, args, sessionKey }),
+      signal: options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined,
+    });
+  } catch (err) {
+    if (err instanceof Error && err.name === "TimeoutError") {
+      throw new GatewayError(`Tool ${tool} timed out after ${options.timeoutMs} ms`, "timeout");
+    }
+    throw new GatewayError(`Gateway unreachable: ${err instanceof Error ? err.message : String(err)}`, "network");
+  }
+  const text = await res.text();
+  let data: { ok?: boolean; result?: unknown; error?: { message?: string } | string } = {};
+  try {
+    data = JSON.parse(text) as typeof data;
+  } catch {
+    // Non-JSON error page; reported below
+  }
+  if (!res.ok || data.ok === false) {
+    const detail = typeof data.error === "string" ? data.error : (data.error?.message ?? text);
+    throw new GatewayError(`Tool ${tool} failed (${res.status}): ${detail}`, "http", res.status);
+  }
+  return data.result;
 }
@@ -0,0 +1,169 @@
+/**
+ * Reverse geocoding for the physical-state context: coordinates -> "Orchard Road, Singapore".
+ * Providers share one async interface so an HTTP provider can slot in later; the
+ * default is offline, backed by saved places, an optional user dataset and the
+ * bundled city list, with a coarse country lookup when no place matches. Lookups are
+ * cached per rounded coordinate.
+ */
+import { readFileSync } from "fs";
+import { distanceMeters } from "./geofence.js";
+import { BUNDLED_COUNTRIES, BUNDLED_PLACES } from "./places.js";
+import type { Geofence } from "./types.js";
+
+/** A named point with a catchment radius, as used by the offline provider. */
+export type GeoPlace = {
+  name: string;
+  country?: string;
+  lat: number;
+  lng: number;
+  radiusM: number;
+};
+
+/** A country's rough bounding box in degrees, for points that are near no known place. */
+export type CountryBounds = {
+  name: string;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+export type GeocodeResult = {
+  name: string;
+  country?: string;
+};
+
+export type ReverseGeocoder = {
+  reverse(lat: number, lng: number): Promise<GeocodeResult | null>;
+};
+
+/** Radius for user dataset entries that do not give one. */
+const DEFAULT_DATASET_RADIUS_M = 1000;
+/** How far outside a saved place still counts as "near" it. */
+const SAVED_PLACE_MARGIN_M = 500;
+/** Cache key precision: 3 decimals is ~110 m. */
+const CACHE_PRECISION = 3;
+const CACHE_MAX_ENTRIES = 500;
+
+/** "Orchard Road, Singapore"; a city-state is only named once. */
+export function formatGeocodeResult(result: GeocodeResult): string {
+  return result.country && result.country !== result.name ? `${result.name}, ${result.country}` : result.name;
+}
+
+/** The smallest country box containing the point; boxes overlap near borders, so this is a best guess. */
+function findCountry(countries: CountryBounds[], lat: number, lng: number): CountryBounds | null {
+  let best: CountryBounds | null = null;
+  let bestArea = Infinity;
+  for (const box of countries) {
+    if (lat < box.south || lat > box.north || lng < box.west || lng > box.east) continue;
+    const area = (box.north - box.south) * (box.east - box.west);
+    if (area < bestArea) {
+      best = box;
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+/**
+ * Offline provider: the most specific place (smallest radius) whose catchment
+ * contains the point, nearest first on ties. Points near no place fall back to
+ * the country they are in.
+ */
+export function createOfflineGeocoder(places: GeoPlace[], countries: CountryBounds[] = []): ReverseGeocoder {
+  return {
+    async reverse(lat, lng) {
+      let best: { place: GeoPlace; distance: number } | null = null;
+      for (const place of places) {
+        const distance = distanceMeters(place.lat, place.lng, lat, lng);
+        if (distance > place.radiusM) continue;
+        if (
+          !best ||
+          place.radiusM < best.place.radiusM ||
+          (place.radiusM === best.place.radiusM && distance < best.distance)
+        ) {
+          best = { place, distance };
+        }
+      }
+      if (best) return { name: best.place.name, country: best.place.country };
+      const country = findCountry(countries, lat, lng);
+      return country ? { name: country.name } : null;
+    },
+  };
+}
+
+/** Wrap a provider with a bounded cache keyed by rounded coordinates (misses are cached too). */
+export function createCachedGeocoder(provider: ReverseGeocoder): ReverseGeocoder {
+  const cache = new Map<string, GeocodeResult | null>();
+  return {
+    async reverse(lat, lng) {
+      const key = `${lat.toFixed(CACHE_PRECISION)},${lng.toFixed(CACHE_PRECISION)}`;
+      if (cache.has(key)) return cache.get(key)!;
+      const result = await provider.reverse(lat, lng);
+      if (cache.size >= CACHE_MAX_ENTRIES) {
+        // Map keeps insertion order, so the first key is the oldest
+        cache.delete(cache.keys().next().value!);
+      }
+      cache.set(key, result);
+      return result;
+    },
+  };
+}
+
+/** Saved places from geofences: the fence center, with a margin around its edge. */
+export function placesFromGeofences(fences: Geofence[]): GeoPlace[] {
+  return fences.map((fence) => {
+    if (fence.polygon) {
+      const lat = fence.polygon.reduce((sum, p) => sum + p.lat, 0) / fence.polygon.length;
+      const lng = fence.polygon.reduce((sum, p) => sum + p.lng, 0) / fence.polygon.length;
+      const extent = Math.max(...fence.polygon.map((p) => distanceMeters(lat, lng, p.lat, p.lng)));
+      return { name: fence.name, lat, lng, radiusM: extent + SAVED_PLACE_MARGIN_M };
+    }
+    return { name: fence.name, lat: fence.lat!, lng: fence.lng!, radiusM: fence.radiusM! + SAVED_PLACE_MARGIN_M };
+  });
+}
+
+/**
+ * Read a user dataset: a JSON array of { name, country?, lat, lng, radiusM? }.
+ * Invalid entries are skipped; a missing or malformed file throws.
+ */
+export function loadPlaceDataset(filePath: string): GeoPlace[] {
+  const raw = JSON.parse(readFileSync(filePath, "utf-8")) as unknown;
+  if (!Array.isArray(raw)) throw new Error(`${filePath}: expected a JSON array of places`);
+  const places: GeoPlace[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    if (typeof o.name !== "string" || !o.name || typeof o.lat !== "number" || typeof o.lng !== "number") continue;
+    places.push({
+      name: o.name,
+      country: typeof o.country === "string" && o.country ? o.country : undefined,
+      lat: o.lat,
+      lng: o.lng,
+      radiusM: typeof o.radiusM === "number" && o.radiusM > 0 ? o.radiusM : DEFAULT_DATASET_RADIUS_M,
+    });
+  }
+  return places;
+}
+
+/**
+ * The geocoder the runtime uses for a config: saved places first in specificity,
+ * then the user dataset, then bundled cities, then bundled countries. Returns null
+ * when geocoding is off.
+ */
+export function createDefaultGeocoder(
+  opts: { geocoder?: "offline" | "off"; geocodeDatasetPath?: string; geofences?: Geofence[] },
+  onError: (msg: string) => void
+): ReverseGeocoder | null {
+  if (opts.geocoder === "off") return null;
+  let dataset: GeoPlace[] = [];
+  if (opts.geocodeDatasetPath) {
+    try {
+      dataset = loadPlaceDataset(opts.geocodeDatasetPath);
+    } catch (err) {
+      onError(`Clawatch geocode dataset not loaded: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  const places = [...placesFromGeofences(opts.geofences ?? []), ...dataset, ...BUNDLED_PLACES];
+  return createCachedGeocoder(createOfflineGeocoder(places, BUNDLED_COUNTRIES));
+}
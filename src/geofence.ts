@@ -0,0 +1,150 @@
+/**
+ * Named geofences (circle or polygon) per watch, and a tracker that turns each
+ * inbound location into enter/leave transitions and the current place name.
+ */
+import { parseWatchActions } from "./alerts.js";
+import type { Geofence } from "./types.js";
+
+const EARTH_RADIUS_M = 6371000;
+/** Extra distance past a circle's edge before counting as left, so GPS jitter at the boundary does not flap. */
+const LEAVE_MARGIN_M = 30;
+
+export type GeofenceTransition = {
+  fence: Geofence;
+  imei: string;
+  event: "enter" | "leave";
+  lat: number;
+  lng: number;
+};
+
+/** Great-circle distance in meters. */
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Ray casting on lat/lng; fine for fences the size of a neighbourhood. */
+function insidePolygon(lat: number, lng: number, polygon: { lat: number; lng: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]!;
+    const b = polygon[j]!;
+    if (a.lat > lat !== b.lat > lat && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Whether a point is inside a fence. `margin` widens a circle (polygons are exact). */
+export function containsPoint(fence: Geofence, lat: number, lng: number, margin = 0): boolean {
+  if (fence.polygon && fence.polygon.length >= 3) {
+    return insidePolygon(lat, lng, fence.polygon);
+  }
+  if (fence.lat == null || fence.lng == null || fence.radiusM == null) return false;
+  return distanceMeters(fence.lat, fence.lng, lat, lng) <= fence.radiusM + margin;
+}
+
+function isCoord(v: unknown, limit: number): v is number {
+  return typeof v === "number" && Number.isFinite(v) && Math.abs(v) <= limit;
+}
+
+/** Parse geofences from raw plugin config, dropping entries without a usable shape. */
+export function parseGeofences(raw: unknown): Geofence[] {
+  if (!Array.isArray(raw)) return [];
+  const fences: Geofence[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    const name = typeof o.name === "string" ? o.name.trim() : "";
+    if (!name) continue;
+    const fence: Geofence = {
+      name,
+      imei: typeof o.imei === "string" && o.imei ? o.imei : undefined,
+      onEnter: Array.isArray(o.onEnter) ? parseWatchActions(o.onEnter) : [],
+      onLeave: Array.isArray(o.onLeave) ? parseWatchActions(o.onLeave) : [],
+    };
+    if (Array.isArray(o.polygon)) {
+      const points = o.polygon
+        .filter((p): p is Record<string, unknown> => !!p && typeof p === "object")
+        .filter((p) => isCoord(p.lat, 90) && isCoord(p.lng, 180))
+        .map((p) => ({ lat: p.lat as number, lng: p.lng as number }));
+      if (points.length < 3) continue;
+      fence.polygon = points;
+    } else if (isCoord(o.lat, 90) && isCoord(o.lng, 180) && typeof o.radiusM === "number" && o.radiusM > 0) {
+      fence.lat = o.lat;
+      fence.lng = o.lng;
+      fence.radiusM = o.radiusM;
+    } else {
+      continue;
+    }
+    fences.push(fence);
+  }
+  return fences;
+}
+
+/** "lat,lng;lat,lng;..." from the CLI into polygon points. Returns null when malformed. */
+export function parsePolygonArg(arg: string): { lat: number; lng: number }[] | null {
+  const points: { lat: number; lng: number }[] = [];
+  for (const pair of arg.split(";")) {
+    if (!pair.trim()) continue;
+    const [lat, lng] = pair.split(",").map((s) => Number(s.trim()));
+    if (!isCoord(lat, 90) || !isCoord(lng, 180)) return null;
+    points.push({ lat, lng });
+  }
+  return points.length >= 3 ? points : null;
+}
+
+/** One-line description for CLI listings. */
+export function describeGeofence(fence: Geofence): string {
+  const shape = fence.polygon
+    ? `polygon (${fence.polygon.length} points)`
+    : `${fence.lat},${fence.lng} r=${fence.radiusM}m`;
+  return `${fence.name}  ${shape}  ${fence.imei ?? "all watches"}`;
+}
+
+export function createGeofenceTracker(fences: Geofence[]) {
+  // IMEI -> names of fences the watch is inside
+  const insideByImei = new Map<string, Set<string>>();
+
+  function fencesFor(imei: string): Geofence[] {
+    return fences.filter((f) => !f.imei || f.imei === imei);
+  }
+
+  return {
+    /**
+     * Feed a new location. The first fix for a watch only sets the baseline, so a
+     * restart does not re-announce every place the wearer is already in.
+     */
+    update(imei: string, lat: number, lng: number): GeofenceTransition[] {
+      const previous = insideByImei.get(imei);
+      const inside = new Set<string>();
+      for (const fence of fencesFor(imei)) {
+        const wasInside = previous?.has(fence.name) ?? false;
+        if (containsPoint(fence, lat, lng, wasInside ? LEAVE_MARGIN_M : 0)) inside.add(fence.name);
+      }
+      insideByImei.set(imei, inside);
+      if (!previous) return [];
+
+      const transitions: GeofenceTransition[] = [];
+      for (const fence of fencesFor(imei)) {
+        const was = previous.has(fence.name);
+        const is = inside.has(fence.name);
+        if (was !== is) transitions.push({ fence, imei, event: is ? "enter" : "leave", lat, lng });
+      }
+      return transitions;
+    },
+
+    /** Name of the first configured fence the watch is currently inside. */
+    currentPlace(imei: string): string | undefined {
+      const inside = insideByImei.get(imei);
+      if (!inside) return undefined;
+      return fencesFor(imei).find((f) => inside.has(f.name))?.name;
+    },
+  };
+}
+
+export type GeofenceTracker = ReturnType<typeof createGeofenceTracker>;
@@ -1,24 +1,125 @@
-import { resolveConfig, PLUGIN_VERSION, DEFAULT_API_URL, parseImeiFromSessionKey } from "./config.js";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import {
+  resolveConfig,
+  resolveStateDir,
+  resolveWatchProfile,
+  resolveAccount,
+  listAccounts,
+  accountConfigPath,
+  getSessionKey,
+  PLUGIN_VERSION,
+  DEFAULT_API_URL,
+  DEFAULT_SESSION_PREFIX,
+  DEFAULT_ACCOUNT_ID,
+  parseImeiFromSessionKey,
+} from "./config.js";
 import { createClawatchRuntime } from "./runtime.js";
-import { chatCompletion } from "./gateway.js";
+import { chatCompletion, buildSystemPrompt, invokeTool } from "./gateway.js";
 import { createClawatchChannelPlugin } from "./channel.js";
+import { mediaSummaryPrompt, mediaSummarySessionKey } from "./media.js";
+import { createPushQueue, pushQueueFileFor } from "./push-queue.js";
+import { createActionDispatcher, deliverToChannel } from "./actions.js";
+import { parseGeofences, parsePolygonArg, describeGeofence } from "./geofence.js";
+import { createSensorStore, formatSensorSummary, SENSOR_DIR, SENSOR_METRICS, type SensorMetric } from "./sensors.js";
+import { createSessionStore, sessionKeyFor, sessionKeyOptions, SESSIONS_FILE } from "./sessions.js";
+import { createTranscriptStore, formatTranscript, parseSince, TRANSCRIPT_DIR } from "./transcript.js";
+import { createDndStore, parseDuration, DEFAULT_DND_MIN, DND_FILE } from "./quiet.js";
 import type { ClawatchRuntime } from "./runtime.js";
+import type { ClawatchAccount, ClawatchConfig, WatchInfo } from "./types.js";
 import type { OpenClawPluginApi } from "openclaw";
 
-let runtime: ClawatchRuntime | null = null;
+// One runtime per cloud account, keyed by account id
+const runtimes = new Map<string, ClawatchRuntime>();
+// How often an account whose token was rejected checks the config for a new one
+const TOKEN_POLL_MS = 30 * 1000;
 
-function getRuntime(): ClawatchRuntime | null {
-  return runtime;
+/**
+ * Runtime for an account; without one, the runtime that has `imei` paired,
+ * else the default account's (or the first running one).
+ */
+function getRuntime(opts: { accountId?: string | null; imei?: string } = {}): ClawatchRuntime | null {
+  if (opts.accountId) return runtimes.get(opts.accountId) ?? null;
+  if (opts.imei) {
+    for (const rt of runtimes.values()) {
+      if (rt.getPairedWatches().some((w) => w.imei === opts.imei)) return rt;
+    }
+  }
+  return runtimes.get(DEFAULT_ACCOUNT_ID) ?? runtimes.values().next().value ?? null;
+}
+
+/**
+ * IMEI behind an agent session: from the keys the runtimes have used, else parsed from the
+ * key with the configured prefix. Shared sessions belong to no single watch and resolve to none.
+ */
+function imeiForSessionKey(sessionKey: string, prefix?: string): string | null {
+  for (const rt of runtimes.values()) {
+    const imei = rt.getImeiFromSessionKey(sessionKey);
+    if (imei) return imei;
+  }
+  return parseImeiFromSessionKey(sessionKey, prefix);
+}
+
+function getAllPairedWatches(): WatchInfo[] {
+  return [...runtimes.values()].flatMap((rt) => rt.getPairedWatches());
 }
 
-function formatStatus(connected: boolean, watches: Array<{ imei: string; label?: string }>): string {
-  const lines: string[] = [
-    `Connected: ${connected ? "yes" : "no"}`,
+function formatStatus(rt: ClawatchRuntime): string {
+  const watches = rt.getPairedWatches();
+  const lines: string[] = [];
+  if (rt.getTokenRejected()) {
+    lines.push(
+      "Signed in: token rejected, run login",
+      `  openclaw clawatch login <countryCode> <phoneNumber>${accountFlag(rt.accountId)}`
+    );
+  }
+  lines.push(
+    `Connected: ${rt.isConnected() ? "yes" : "no"}`,
     `Paired: ${watches.length === 0 ? "none" : watches.map((w) => `${w.imei}${w.label ? ` (${w.label})` : ""}`).join(", ")}`,
-  ];
+    `Queued pushes: ${rt.getQueuedPushCount()}`
+  );
+  const held = rt.getHeldPushCount();
+  if (held > 0) {
+    lines.push(`Held pushes (quiet hours / do not disturb): ${held}`);
+  }
+  for (const w of watches) {
+    const until = rt.getQuietUntil(w.imei);
+    if (until) lines.push(`Quiet: ${w.imei} until ${new Date(until).toISOString()}`);
+  }
+  const invalidFrames = rt.getInvalidFrameCount();
+  if (invalidFrames > 0) {
+    lines.push(`Invalid frames from cloud: ${invalidFrames}`);
+  }
   return lines.join("\n");
 }
 
+/** Status of one account, or of all accounts (with headers when there are several). */
+function formatAllStatus(accountId?: string): string {
+  if (accountId) {
+    const rt = runtimes.get(accountId);
+    return rt ? formatStatus(rt) : `Account "${accountId}": not running`;
+  }
+  if (runtimes.size === 1) return formatStatus([...runtimes.values()][0]!);
+  return [...runtimes.values()].map((rt) => `[${rt.accountId}]\n${formatStatus(rt)}`).join("\n\n");
+}
+
+/** " --account <id>" for CLI hints, empty for the default account. */
+function accountFlag(accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? "" : ` --account ${accountId}`;
+}
+
+/** Resolve --account for a CLI command, exiting with a hint when it is not configured. */
+function accountOrExit(config: ClawatchConfig, accountId?: string): ClawatchAccount {
+  const account = resolveAccount(config, accountId);
+  if (!account) {
+    console.error(`Unknown account "${accountId}".`);
+    console.error("");
+    console.error(`Add it first: openclaw config set ${accountConfigPath(accountId!.trim(), "apiUrl")} <wss://.../api/v1/watch/connect>`);
+    process.exit(1);
+  }
+  return account;
+}
+
 export function register(api: OpenClawPluginApi) {
   function getGatewayConfig(): { baseUrl: string; token: string } | null {
     const cfg = api.config?.gateway;
@@ -31,6 +132,37 @@ export function register(api: OpenClawPluginApi) {
     return { baseUrl, token };
   }
 
+  // Accounts whose token the cloud rejected, polling the config for the one `login` writes next
+  const tokenWatches = new Map<string, ReturnType<typeof setInterval>>();
+
+  /** An account's apiToken as saved in the OpenClaw config right now (not the copy loaded at start). */
+  function savedToken(accountId: string): string | undefined {
+    const fresh = api.runtime?.config?.loadConfig?.() as
+      | { plugins?: { entries?: Record<string, { config?: unknown }> } }
+      | undefined;
+    const config = resolveConfig(fresh?.plugins?.entries?.clawatch?.config);
+    return config ? resolveAccount(config, accountId)?.apiToken : undefined;
+  }
+
+  /** Reconnect an account as soon as its saved token differs from the rejected one. */
+  function watchForNewToken(accountId: string, rejected: string): void {
+    const rt = runtimes.get(accountId);
+    if (!rt || tokenWatches.has(accountId)) return;
+    if (!api.runtime?.config?.loadConfig) {
+      rt.logger.info("Clawatch: restart Gateway after login to use the new token");
+      return;
+    }
+    const timer = setInterval(() => {
+      const token = savedToken(accountId);
+      if (!token || token === rejected) return;
+      clearInterval(timer);
+      tokenWatches.delete(accountId);
+      rt.logger.info("Clawatch: new API token found, reconnecting");
+      rt.updateToken(token).catch((err) => rt.logger.error(`Clawatch reconnect with new token failed: ${String(err)}`));
+    }, TOKEN_POLL_MS);
+    tokenWatches.set(accountId, timer);
+  }
+
   api.registerService({
   id: "clawatch",
   start: async (ctx) => {
@@ -47,43 +179,145 @@ export function register(api: OpenClawPluginApi) {
       return;
     }
 
-    runtime = createClawatchRuntime(config, {
-      logger: {
-        info: (msg, ...args) => ctx.logger?.info?.(msg, ...args),
-        error: (msg, ...args) => ctx.logger?.error?.(msg, ...args),
+    const logger = {
+      info: (msg: string, ...args: unknown[]) => ctx.logger?.info?.(msg, ...args),
+      error: (msg: string, ...args: unknown[]) => ctx.logger?.error?.(msg, ...args),
+    };
+    // Agent, persona and locale come from the watch's profile, falling back to global config;
+    // an agent switched to on the watch wins over the profile's
+    const gatewayFor = (imei: string, agentId?: string) => {
+      const profile = resolveWatchProfile(config, imei);
+      return {
+        baseUrl: gateway.baseUrl,
+        token: gateway.token,
+        agentId: agentId ?? profile.agentId,
+        ttsSystemPrompt: profile.systemPrompt,
+        locale: profile.locale,
+      };
+    };
+    const gatewayLimits = {
+      timeouts: {
+        connectMs: config.gatewayConnectTimeoutMs,
+        firstTokenMs: config.gatewayFirstTokenTimeoutMs,
+        totalMs: config.gatewayTimeoutMs,
       },
-      onInboundMessage: async (msgId, imei, text, sessionKey, context) => {
-        const reply = await chatCompletion(
-          {
-            baseUrl: gateway.baseUrl,
-            token: gateway.token,
-            agentId: config.agentId ?? "main",
-            ttsSystemPrompt: config.ttsSystemPrompt,
+      retries: config.gatewayRetries,
+    };
+
+    for (const account of listAccounts(config)) {
+      if (!account.enabled) continue;
+      const accountLogger =
+        account.id === DEFAULT_ACCOUNT_ID
+          ? logger
+          : {
+              info: (msg: string, ...args: unknown[]) => logger.info(`[${account.id}] ${msg}`, ...args),
+              error: (msg: string, ...args: unknown[]) => logger.error(`[${account.id}] ${msg}`, ...args),
+            };
+      const dispatchWatchEvent = createActionDispatcher({
+        getRuntime: () => runtimes.get(account.id) ?? null,
+        logger: accountLogger,
+        runAgentTurn: (imei, prompt) => {
+          const rt = runtimes.get(account.id);
+          return chatCompletion(
+            gatewayFor(imei, rt?.getAgentOverride(imei)),
+            rt?.currentSessionKey(imei) ?? sessionKeyFor(imei, {}, sessionKeyOptions(config, imei)),
+            prompt,
+            undefined,
+            gatewayLimits
+          );
+        },
+      });
+
+      const runtime = createClawatchRuntime(
+        { ...config, apiUrl: account.apiUrl, apiToken: account.apiToken },
+        {
+          logger: accountLogger,
+          onWatchEvent: (event) => {
+            dispatchWatchEvent(event).catch((err) => accountLogger.error(`Clawatch event dispatch failed: ${String(err)}`));
           },
-          sessionKey,
-          text,
-          context
-        );
-        return reply;
-      },
-    });
+          onTokenRejected: (message, token) => {
+            watchForNewToken(account.id, token);
+            const notify = config.tokenRejectedNotify;
+            if (!notify) return;
+            const who = account.id === DEFAULT_ACCOUNT_ID ? "" : ` (account ${account.id})`;
+            const text = `Clawatch${who}: the cloud rejected the API token (${message}). Watches are offline until you run: openclaw clawatch login <countryCode> <phoneNumber>${accountFlag(account.id)}`;
+            deliverToChannel(notify.channel, notify.to, text).catch((err) =>
+              accountLogger.error(`Clawatch token-rejected notification failed: ${String(err)}`)
+            );
+          },
+          onToolCommand: ({ sessionKey, tool, args }) =>
+            invokeTool(gateway, sessionKey, tool, args, { timeoutMs: config.gatewayTimeoutMs }),
+          onInboundMessage: async ({ imei, text, sessionKey, context, placeName, locationName, onDelta, signal, agentId }) => {
+            const profile = resolveWatchProfile(config, imei);
+            const reply = await chatCompletion(gatewayFor(imei, agentId), sessionKey, text, context, {
+              ...gatewayLimits,
+              onDelta,
+              signal,
+              contextOptions: {
+                placeName,
+                locationName,
+                timeZone: profile.timeZone,
+                units: profile.units,
+                fields: profile.contextFields,
+                maxAgeMin: config.contextMaxAgeMin,
+                stale: config.staleContext,
+              },
+            });
+            return reply;
+          },
+        },
+        account.id
+      );
+      runtimes.set(account.id, runtime);
 
-    // Attempt initial connection; if it fails, runtime's reconnect logic will handle retries
-    runtime.connect().catch((err) => {
-      ctx.logger?.error?.("Clawatch initial connect failed: %s", String(err));
-      // Don't set runtime = null here - let the reconnect logic handle retries
-      // The connector's onReconnect will be triggered via onclose or manual retry
-    });
+      // Attempt initial connection; if it fails, runtime's reconnect logic will handle retries
+      runtime.connect().catch((err) => {
+        accountLogger.error("Clawatch initial connect failed: %s", String(err));
+        // Keep the runtime registered - let the reconnect logic handle retries
+        // The connector's onReconnect will be triggered via onclose or manual retry
+      });
+    }
   },
   stop: async () => {
-    runtime?.disconnect();
-    runtime = null;
+    for (const timer of tokenWatches.values()) clearInterval(timer);
+    tokenWatches.clear();
+    for (const rt of runtimes.values()) rt.disconnect();
+    runtimes.clear();
   },
   });
 
   if (api.registerChannel) {
     api.registerChannel({
-      plugin: createClawatchChannelPlugin(getRuntime),
+      plugin: createClawatchChannelPlugin(
+        getRuntime,
+        () => {
+          const config = resolveConfig(api.pluginConfig);
+          return config ? listAccounts(config).map((a) => a.id) : [DEFAULT_ACCOUNT_ID];
+        },
+        async ({ imei, mediaUrl, caption }) => {
+          const config = resolveConfig(api.pluginConfig);
+          const gateway = getGatewayConfig();
+          // Inline data is not something the agent can open from a prompt
+          if (!config?.mediaSummary || !gateway || /^data:/i.test(mediaUrl)) return null;
+          const profile = resolveWatchProfile(config, imei);
+          const sessionKey = mediaSummarySessionKey(config.sessionKeyPrefix ?? DEFAULT_SESSION_PREFIX, imei);
+          const summary = await chatCompletion(
+            { baseUrl: gateway.baseUrl, token: gateway.token, agentId: profile.agentId, locale: profile.locale },
+            sessionKey,
+            mediaSummaryPrompt(mediaUrl, caption),
+            undefined,
+            {
+              timeouts: {
+                connectMs: config.gatewayConnectTimeoutMs,
+                firstTokenMs: config.gatewayFirstTokenTimeoutMs,
+                totalMs: config.gatewayTimeoutMs,
+              },
+              retries: config.gatewayRetries,
+            }
+          );
+          return summary.trim() || null;
+        }
+      ),
     });
   }
 
@@ -93,7 +327,7 @@ export function register(api: OpenClawPluginApi) {
 
     clawatch
       .command("config")
-      .description("Show resolved config (apiUrl, agentId, sign-in status)")
+      .description("Show resolved config (apiUrl, agentId, watch profiles, sign-in status)")
       .action(async () => {
         const raw = api.pluginConfig;
         const config = resolveConfig(raw);
@@ -103,11 +337,35 @@ export function register(api: OpenClawPluginApi) {
         }
         console.log("apiUrl:", config.apiUrl);
         console.log("agentId:", config.agentId ?? "main");
+        const profiles = Object.keys(config.watches ?? {});
+        if (profiles.length > 0) {
+          console.log("watch profiles:");
+          for (const imei of profiles) {
+            const p = resolveWatchProfile(config, imei);
+            const details = [
+              `agent=${p.agentId}`,
+              p.locale ? `locale=${p.locale}` : null,
+              `units=${p.units}`,
+              p.timeZone ? `timeZone=${p.timeZone}` : null,
+              p.contextFields ? `context=${p.contextFields.join(",") || "none"}` : null,
+              p.systemPrompt !== config.ttsSystemPrompt ? `prompt="${(p.systemPrompt ?? "").slice(0, 40)}"` : null,
+            ].filter(Boolean);
+            console.log(`  ${imei}: ${details.join(" ")}`);
+          }
+        }
         if (config.apiToken) {
           console.log("apiToken: (set, signed in)");
         } else {
           console.log("apiToken: (not set, signed off)");
         }
+        const accounts = listAccounts(config).filter((a) => a.id !== DEFAULT_ACCOUNT_ID);
+        if (accounts.length > 0) {
+          console.log("accounts:");
+          for (const a of accounts) {
+            const state = a.apiToken ? "signed in" : "signed off";
+            console.log(`  ${a.id}: ${a.apiUrl} (${a.enabled ? state : "disabled"})`);
+          }
+        }
       });
 
     const LOGIN_USAGE = "Usage: openclaw clawatch login <countryCode> <phoneNumber>";
@@ -120,14 +378,15 @@ export function register(api: OpenClawPluginApi) {
       return url.origin.replace(/^ws:/, "http:").replace(/^wss:/, "https:");
     }
 
-    async function doLogin(countryCode: string, phoneNumber: string): Promise<void> {
+    async function doLogin(countryCode: string, phoneNumber: string, accountId?: string): Promise<void> {
       const raw = api.pluginConfig;
       const config = resolveConfig(raw);
       if (!config?.apiUrl) {
         console.error("apiUrl not configured. Run: openclaw clawatch config");
         process.exit(1);
       }
-      const baseUrl = getBaseUrl(config);
+      const account = accountOrExit(config, accountId);
+      const baseUrl = getBaseUrl(account);
       let loginRes: Response;
       try {
         loginRes = await fetch(`${baseUrl}/api/v1/watch/login`, {
@@ -189,7 +448,7 @@ export function register(api: OpenClawPluginApi) {
       }
       try {
         const { execSync } = await import("child_process");
-        execSync(`openclaw config set plugins.entries.clawatch.config.apiToken "${apiToken}"`, {
+        execSync(`openclaw config set ${accountConfigPath(account.id, "apiToken")} "${apiToken}"`, {
           stdio: ["ignore", "ignore", "ignore"],
           encoding: "utf-8",
         });
@@ -198,29 +457,30 @@ export function register(api: OpenClawPluginApi) {
       }
     }
 
-    async function doPair(imei: string): Promise<void> {
+    async function doPair(imei: string, accountId?: string): Promise<void> {
       const raw = api.pluginConfig;
       const config = resolveConfig(raw);
       if (!config?.apiUrl) {
         console.error("apiUrl not configured. Run: openclaw clawatch config");
         process.exit(1);
       }
-      if (!config.apiToken) {
-        console.error("Not signed in. Run: openclaw clawatch login <countryCode> <phoneNumber>");
+      const account = accountOrExit(config, accountId);
+      if (!account.apiToken) {
+        console.error(`Not signed in. Run: openclaw clawatch login <countryCode> <phoneNumber>${accountFlag(account.id)}`);
         process.exit(1);
       }
       if (!/^\d{15}$/.test(imei)) {
         console.error("IMEI must be 15 digits (from watch box or settings).");
         process.exit(1);
       }
-      const baseUrl = getBaseUrl(config);
+      const baseUrl = getBaseUrl(account);
       let res: Response;
       try {
         res = await fetch(`${baseUrl}/api/v1/watch/pair`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
-            Authorization: `Bearer ${config.apiToken}`,
+            Authorization: `Bearer ${account.apiToken}`,
           },
           body: JSON.stringify({ imei }),
         });
@@ -244,8 +504,9 @@ export function register(api: OpenClawPluginApi) {
     clawatch
       .command("login [countryCode] [phoneNumber]")
       .description("Sign in (phone + OTP)")
+      .option("--account <id>", "Cloud account (default: default)")
       .addHelpText("after", `\n${LOGIN_USAGE}\n${LOGIN_EXAMPLE}\n  countryCode: e.g. +65, +1\n  phoneNumber: number used in Clawatch app`)
-      .action(async (countryCode?: string, phoneNumber?: string) => {
+      .action(async (countryCode?: string, phoneNumber?: string, opts?: { account?: string }) => {
         if (!countryCode?.trim() || !phoneNumber?.trim()) {
           console.error("Sign in requires country code and phone number.");
           console.error("");
@@ -256,23 +517,27 @@ export function register(api: OpenClawPluginApi) {
           console.error("  phoneNumber: number used in Clawatch app");
           process.exit(1);
         }
-        await doLogin(countryCode.trim(), phoneNumber.trim());
-        console.log("Signed in. Run 'openclaw clawatch pair <imei>' to pair a watch.");
+        await doLogin(countryCode.trim(), phoneNumber.trim(), opts?.account);
+        const flag = opts?.account ? accountFlag(opts.account.trim()) : "";
+        console.log(`Signed in. Run 'openclaw clawatch pair <imei>${flag}' to pair a watch.`);
+        console.log("A running Gateway whose old token was rejected reconnects with the new one within a minute.");
         process.exit(0);
       });
 
     clawatch
       .command("pair [imei]")
       .description("Pair device (requires sign-in)")
+      .option("--account <id>", "Cloud account (default: default)")
       .addHelpText("after", `\n${PAIR_USAGE}\n${PAIR_EXAMPLE}\n  imei: 15 digits from watch box or settings`)
-      .action(async (imei?: string) => {
+      .action(async (imei?: string, opts?: { account?: string }) => {
         const raw = api.pluginConfig;
         const config = resolveConfig(raw);
-        if (!config?.apiToken) {
+        const account = config ? accountOrExit(config, opts?.account) : null;
+        if (!account?.apiToken) {
           console.error("Not signed in.");
           console.error("");
           console.error("Sign in first:");
-          console.error(`  openclaw clawatch login <countryCode> <phoneNumber>`);
+          console.error(`  openclaw clawatch login <countryCode> <phoneNumber>${accountFlag(account?.id ?? DEFAULT_ACCOUNT_ID)}`);
           console.error(`  ${LOGIN_EXAMPLE}`);
           process.exit(1);
         }
@@ -283,7 +548,7 @@ export function register(api: OpenClawPluginApi) {
           console.error(PAIR_EXAMPLE);
           process.exit(1);
         }
-        await doPair(imei.trim());
+        await doPair(imei.trim(), account.id);
         console.log("Device paired. Restart Gateway to connect.");
         process.exit(0);
       });
@@ -291,16 +556,18 @@ export function register(api: OpenClawPluginApi) {
     clawatch
       .command("logout")
       .description("Sign off (clear local token)")
-      .action(async () => {
+      .option("--account <id>", "Cloud account (default: default)")
+      .action(async (opts?: { account?: string }) => {
         const raw = api.pluginConfig;
         const config = resolveConfig(raw);
-        if (!config?.apiToken) {
+        const account = config ? accountOrExit(config, opts?.account) : null;
+        if (!account?.apiToken) {
           console.log("Already signed off.");
           return;
         }
         try {
           const { execSync } = await import("child_process");
-          execSync(`openclaw config set plugins.entries.clawatch.config.apiToken ""`, {
+          execSync(`openclaw config set ${accountConfigPath(account.id, "apiToken")} ""`, {
             stdio: ["ignore", "ignore", "ignore"],
             encoding: "utf-8",
           });
@@ -314,17 +581,21 @@ export function register(api: OpenClawPluginApi) {
         clawatch
       .command("status")
       .description("Show connection and paired watches")
-      .action(async () => {
-      if (runtime) {
-        console.log(formatStatus(runtime.isConnected(), runtime.getPairedWatches()));
+      .option("--account <id>", "Only this cloud account (default: all)")
+      .action(async (opts?: { account?: string }) => {
+      if (runtimes.size > 0) {
+        console.log(formatAllStatus(opts?.account?.trim()));
         return;
       }
       // CLI runs in separate process; runtime lives in Gateway.
       const config = resolveConfig(api.pluginConfig);
-      if (!config?.apiToken) {
+      const account = config ? accountOrExit(config, opts?.account) : null;
+      // Without --account, any signed-in account is worth asking the Gateway about
+      const signedIn = opts?.account ? !!account?.apiToken : !!config && listAccounts(config).some((a) => a.apiToken);
+      if (!signedIn) {
         console.log("Signed off.");
         console.log("");
-        console.log("Sign in: openclaw clawatch login <countryCode> <phoneNumber>");
+        console.log(`Sign in: openclaw clawatch login <countryCode> <phoneNumber>${accountFlag(account?.id ?? DEFAULT_ACCOUNT_ID)}`);
         console.log("Example: openclaw clawatch login +65 87654321");
         return;
       }
@@ -341,7 +612,7 @@ export function register(api: OpenClawPluginApi) {
             "Content-Type": "application/json",
             Authorization: `Bearer ${gateway.token}`,
           },
-          body: JSON.stringify({ tool: "clawatch_status", args: {} }),
+          body: JSON.stringify({ tool: "clawatch_status", args: opts?.account ? { account: opts.account.trim() } : {} }),
         });
         if (!res.ok) {
           if (res.status === 401) {
@@ -375,13 +646,21 @@ export function register(api: OpenClawPluginApi) {
       .command("unpair [imei]")
       .alias("disconnect")
       .description("Unpair device from cloud")
-      .action(async (imei?: string) => {
+      .option("--account <id>", "Cloud account (default: the one the watch is paired with, else default)")
+      .action(async (imei?: string, opts?: { account?: string }) => {
         let targetImei: string | undefined;
+        const runtime = getRuntime({ accountId: opts?.account?.trim(), imei: imei?.trim() });
         if (runtime) {
           const watches = runtime.getPairedWatches();
           const target = imei ? watches.find((w) => w.imei === imei) : watches[0];
           if (target) {
-            await runtime.sendControl({ action: "unpair", imei: target.imei });
+            try {
+              await runtime.sendControl({ action: "unpair", imei: target.imei });
+            } catch (err) {
+              const msg = err instanceof Error ? err.message : String(err);
+              console.error("Unpair failed:", msg);
+              process.exit(1);
+            }
             console.log("Unpaired", target.imei);
             return;
           }
@@ -402,14 +681,15 @@ export function register(api: OpenClawPluginApi) {
           console.error("apiUrl not configured. Run: openclaw clawatch config");
           process.exit(1);
         }
-        if (!config.apiToken) {
+        const account = accountOrExit(config, opts?.account);
+        if (!account.apiToken) {
           console.error("Not signed in.");
           console.error("");
-          console.error("Sign in first: openclaw clawatch login <countryCode> <phoneNumber>");
+          console.error(`Sign in first: openclaw clawatch login <countryCode> <phoneNumber>${accountFlag(account.id)}`);
           console.error("Or run unpair when Gateway is running (uses first paired watch).");
           process.exit(1);
         }
-        const url = new URL(config.apiUrl);
+        const url = new URL(account.apiUrl);
         const baseUrl = url.origin.replace(/^ws:/, "http:").replace(/^wss:/, "https:");
         let res: Response;
         try {
@@ -417,7 +697,7 @@ export function register(api: OpenClawPluginApi) {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
-              Authorization: `Bearer ${config.apiToken}`,
+              Authorization: `Bearer ${account.apiToken}`,
             },
             body: JSON.stringify({ device_id: targetImei }),
           });
@@ -444,6 +724,7 @@ export function register(api: OpenClawPluginApi) {
           console.error("  sec:  positive seconds (e.g. 60)");
           process.exit(1);
         }
+        const runtime = getRuntime({ imei: imei.trim() });
         if (!runtime) {
           console.error("Not connected.");
           console.error("");
@@ -455,14 +736,221 @@ export function register(api: OpenClawPluginApi) {
           console.error("Invalid interval. Use a positive number of seconds.");
           process.exit(1);
         }
-        await runtime.sendControl({
-          action: "set_interval",
-          imei: imei.trim(),
-          params: { intervalSec },
-        });
+        try {
+          await runtime.sendControl({
+            action: "set_interval",
+            imei: imei.trim(),
+            params: { intervalSec },
+          });
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          console.error("Set interval failed:", msg);
+          process.exit(1);
+        }
         console.log("Interval set to", intervalSec, "s for", imei.trim());
       });
 
+    clawatch
+      .command("queue [action] [imei]")
+      .description("List or purge pushes queued while the cloud link was down (action: list | purge)")
+      .option("--account <id>", "Cloud account (default: default)")
+      .action(async (action?: string, imei?: string, opts?: { account?: string }) => {
+        const op = action?.trim() || "list";
+        if (op !== "list" && op !== "purge") {
+          console.error("Usage: openclaw clawatch queue [list|purge] [imei] [--account <id>]");
+          process.exit(1);
+        }
+        // Queue file is shared with the Gateway process, so the CLI can operate on it directly
+        const config = resolveConfig(api.pluginConfig);
+        const accountId = config ? accountOrExit(config, opts?.account).id : DEFAULT_ACCOUNT_ID;
+        const queue = createPushQueue(join(resolveStateDir(), pushQueueFileFor(accountId)));
+        const targetImei = imei?.trim() || undefined;
+        if (op === "purge") {
+          const removed = queue.purge(targetImei);
+          console.log(`Purged ${removed} queued push${removed === 1 ? "" : "es"}${targetImei ? ` for ${targetImei}` : ""}.`);
+          return;
+        }
+        const items = queue.list(targetImei);
+        if (items.length === 0) {
+          console.log("No queued pushes.");
+          return;
+        }
+        for (const item of items) {
+          const queuedAt = new Date(item.queuedAt).toISOString();
+          const expiresAt = new Date(item.expiresAt).toISOString();
+          console.log(`${item.frame.id}  ${item.frame.imei}  queued ${queuedAt}  expires ${expiresAt}`);
+          console.log(`  ${item.frame.text.slice(0, 80)}${item.frame.text.length > 80 ? "…" : ""}`);
+        }
+      });
+
+    clawatch
+      .command("dnd <imei> [action]")
+      .description("Turn do-not-disturb on or off for a watch, or show it (action: on | off | status)")
+      .option("--for <duration>", `How long for "on": 90m, 2h, 1d (default ${DEFAULT_DND_MIN}m)`)
+      .action(async (imei: string, action?: string, opts?: { for?: string }) => {
+        const op = action?.trim() || "status";
+        if (op !== "on" && op !== "off" && op !== "status") {
+          console.error("Usage: openclaw clawatch dnd <imei> [on|off|status] [--for <duration>]");
+          process.exit(1);
+        }
+        // DND file is re-read by the Gateway on every push, so the CLI can write it directly
+        const store = createDndStore(join(resolveStateDir(), DND_FILE));
+        const target = imei.trim();
+        if (op === "on") {
+          const ms = opts?.for ? parseDuration(opts.for) : DEFAULT_DND_MIN * 60 * 1000;
+          if (!ms) {
+            console.error(`Invalid --for: ${opts?.for}. Use e.g. 90m, 2h or 1d.`);
+            process.exit(1);
+          }
+          const until = Date.now() + ms;
+          store.set(target, until);
+          console.log(`Do not disturb on for ${target} until ${new Date(until).toISOString()}.`);
+          return;
+        }
+        if (op === "off") {
+          const wasOn = store.clear(target);
+          console.log(wasOn ? `Do not disturb off for ${target}; held pushes go out within a minute.` : `Do not disturb was not on for ${target}.`);
+          return;
+        }
+        const until = store.get(target);
+        console.log(until ? `Do not disturb on for ${target} until ${new Date(until).toISOString()}.` : `Do not disturb off for ${target}.`);
+      });
+
+    clawatch
+      .command("history <imei>")
+      .description("Show the conversation transcript for a watch (messages, replies, pushes, errors)")
+      .option("--since <when>", "Start from a duration ago (30m, 12h, 7d) or a date")
+      .option("--limit <n>", "Show only the last n entries (default 50; ignored with --export)")
+      .option("--json", "Print entries as JSON lines")
+      .option("--export <file>", "Write all matching entries to a JSON file")
+      .action(async (imei: string, opts?: { since?: string; limit?: string; json?: boolean; export?: string }) => {
+        let since: number | undefined;
+        if (opts?.since) {
+          const parsed = parseSince(opts.since);
+          if (parsed == null) {
+            console.error(`Invalid --since: ${opts.since}. Use e.g. 30m, 12h, 7d or 2026-01-31.`);
+            process.exit(1);
+          }
+          since = parsed;
+        }
+        const limit = opts?.limit != null ? Number(opts.limit) : 50;
+        if (!Number.isInteger(limit) || limit <= 0) {
+          console.error("--limit must be a positive integer");
+          process.exit(1);
+        }
+        // Transcript files are written by the Gateway process; the CLI reads them directly
+        const config = resolveConfig(api.pluginConfig);
+        const store = createTranscriptStore(join(resolveStateDir(), TRANSCRIPT_DIR), {
+          retentionDays: config?.transcriptRetentionDays,
+        });
+        const target = imei.trim();
+        if (opts?.export) {
+          const entries = store.read(target, { since });
+          writeFileSync(opts.export, JSON.stringify(entries, null, 2) + "\n", "utf-8");
+          console.log(`Exported ${entries.length} entr${entries.length === 1 ? "y" : "ies"} for ${target} to ${opts.export}`);
+          return;
+        }
+        const entries = store.read(target, { since, limit });
+        if (entries.length === 0) {
+          if (config?.transcriptEnabled === false) console.log("Transcripts are disabled (transcriptEnabled: false).");
+          else console.log(`No transcript for ${target}${since != null ? " in that range" : ""}.`);
+          return;
+        }
+        if (opts?.json) {
+          for (const entry of entries) console.log(JSON.stringify(entry));
+          return;
+        }
+        const timeZone = config ? resolveWatchProfile(config, target).timeZone : undefined;
+        console.log(formatTranscript(entries, timeZone));
+      });
+
+    clawatch
+      .command("geofence [action] [name]")
+      .description("Manage named places (action: list | add | remove). Add takes --lat --lng --radius or --polygon")
+      .option("--lat <lat>", "Circle center latitude")
+      .option("--lng <lng>", "Circle center longitude")
+      .option("--radius <meters>", "Circle radius in meters (default 100)")
+      .option("--polygon <points>", "Polygon as \"lat,lng;lat,lng;lat,lng\" instead of a circle")
+      .option("--imei <imei>", "Only this watch (default: all watches)")
+      .action(async (action?: string, name?: string, opts?: Record<string, string | undefined>) => {
+        const op = action?.trim() || "list";
+        const raw = (api.pluginConfig ?? {}) as Record<string, unknown>;
+        // Keep the raw entries so onEnter/onLeave survive a rewrite untouched
+        const entries: Record<string, unknown>[] = Array.isArray(raw.geofences)
+          ? raw.geofences.filter((g): g is Record<string, unknown> => !!g && typeof g === "object")
+          : [];
+        if (op === "list") {
+          const fences = parseGeofences(entries);
+          if (fences.length === 0) {
+            console.log("No geofences.");
+            return;
+          }
+          for (const fence of fences) console.log(describeGeofence(fence));
+          return;
+        }
+        const placeName = name?.trim();
+        if ((op !== "add" && op !== "remove") || !placeName) {
+          console.error("Usage: openclaw clawatch geofence list");
+          console.error("       openclaw clawatch geofence add <name> --lat <lat> --lng <lng> [--radius <meters>] [--imei <imei>]");
+          console.error("       openclaw clawatch geofence add <name> --polygon \"lat,lng;lat,lng;lat,lng\" [--imei <imei>]");
+          console.error("       openclaw clawatch geofence remove <name>");
+          process.exit(1);
+        }
+        const others = entries.filter((g) => g.name !== placeName);
+        let next: Record<string, unknown>[];
+        if (op === "remove") {
+          if (others.length === entries.length) {
+            console.error(`No geofence named "${placeName}".`);
+            process.exit(1);
+          }
+          next = others;
+        } else {
+          const existing = entries.find((g) => g.name === placeName);
+          const entry: Record<string, unknown> = {
+            name: placeName,
+            ...(opts?.imei?.trim() ? { imei: opts.imei.trim() } : {}),
+            ...(existing?.onEnter ? { onEnter: existing.onEnter } : {}),
+            ...(existing?.onLeave ? { onLeave: existing.onLeave } : {}),
+          };
+          if (opts?.polygon) {
+            const polygon = parsePolygonArg(opts.polygon);
+            if (!polygon) {
+              console.error("Invalid polygon. Use at least 3 points: \"lat,lng;lat,lng;lat,lng\"");
+              process.exit(1);
+            }
+            entry.polygon = polygon;
+          } else {
+            const lat = Number(opts?.lat);
+            const lng = Number(opts?.lng);
+            const radiusM = opts?.radius ? Number(opts.radius) : 100;
+            if (!opts?.lat || !opts?.lng || Number.isNaN(lat) || Number.isNaN(lng) || !(radiusM > 0)) {
+              console.error("Circle needs --lat and --lng (and a positive --radius in meters).");
+              process.exit(1);
+            }
+            Object.assign(entry, { lat, lng, radiusM });
+          }
+          if (parseGeofences([entry]).length === 0) {
+            console.error("Invalid geofence: coordinates out of range.");
+            process.exit(1);
+          }
+          next = [...others, entry];
+        }
+        try {
+          const { execFileSync } = await import("child_process");
+          // execFile, not a shell string: place names may contain quotes
+          execFileSync("openclaw", ["config", "set", "plugins.entries.clawatch.config.geofences", JSON.stringify(next), "--json"], {
+            stdio: ["ignore", "ignore", "pipe"],
+            encoding: "utf-8",
+          });
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          console.error("Failed to save geofences:", msg);
+          process.exit(1);
+        }
+        console.log(op === "add" ? `Saved geofence "${placeName}".` : `Removed geofence "${placeName}".`);
+        console.log("Restart Gateway for changes to take effect.");
+      });
+
     clawatch
       .command("bind [agentId]")
       .description("Bind clawatch channel to an agent (default: main). Shares memory/config with other channels using the same agent.")
@@ -498,8 +986,16 @@ export function register(api: OpenClawPluginApi) {
           process.exit(1);
         }
         const config = resolveConfig(api.pluginConfig);
-        const agentId = config?.agentId ?? "main";
-        const sessionKey = `clawatch:${imei}`;
+        const profile = config ? resolveWatchProfile(config, imei) : undefined;
+        const agentId = profile?.agentId ?? "main";
+        const systemPrompt = buildSystemPrompt({ ttsSystemPrompt: profile?.systemPrompt, locale: profile?.locale });
+        const sessionKey = config
+          ? sessionKeyFor(
+              imei,
+              createSessionStore(join(resolveStateDir(), SESSIONS_FILE)).get(imei),
+              sessionKeyOptions(config, imei)
+            )
+          : getSessionKey(DEFAULT_SESSION_PREFIX, imei);
         const chatId = Math.floor(Date.now() / 1000);
         
         const url = `${gateway.baseUrl.replace(/\/$/, "")}/v1/chat/completions`;
@@ -514,7 +1010,10 @@ export function register(api: OpenClawPluginApi) {
             },
             body: JSON.stringify({
               model: "openclaw",
-              messages: [{ role: "user", content: message }],
+              messages: [
+                ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+                { role: "user", content: message },
+              ],
               stream: false,
             }),
           });
@@ -553,35 +1052,41 @@ export function register(api: OpenClawPluginApi) {
     required: ["action"],
   },
   execute: async (_ctx, params: { action: string; imei?: string; intervalSec?: number }) => {
-    if (!runtime) {
+    if (runtimes.size === 0) {
       return { content: [{ type: "text", text: "Clawatch not connected." }] };
     }
-    const watches = runtime.getPairedWatches();
-    const imei = params.imei ?? watches[0]?.imei;
+    const imei = params.imei ?? getAllPairedWatches()[0]?.imei;
     if (!imei) {
       return { content: [{ type: "text", text: "No paired watch." }] };
     }
-    if (params.action === "set_interval" && params.intervalSec != null) {
-      await runtime.sendControl({
-        action: "set_interval",
-        imei,
-        params: { intervalSec: params.intervalSec },
-      });
-      return {
-        content: [{ type: "text", text: `Interval set to ${params.intervalSec}s for ${imei}` }],
-      };
-    }
-    if (params.action === "unpair") {
-      await runtime.sendControl({ action: "unpair", imei });
-      return {
-        content: [{ type: "text", text: `Unpaired ${imei}` }],
-      };
-    }
-    if (params.action === "get_config") {
-      await runtime.sendControl({ action: "get_config", imei });
-      return {
-        content: [{ type: "text", text: `Config request sent for ${imei}` }],
-      };
+    // The account the watch is paired with carries its control commands
+    const runtime = getRuntime({ imei })!;
+    try {
+      if (params.action === "set_interval" && params.intervalSec != null) {
+        await runtime.sendControl({
+          action: "set_interval",
+          imei,
+          params: { intervalSec: params.intervalSec },
+        });
+        return {
+          content: [{ type: "text", text: `Interval set to ${params.intervalSec}s for ${imei}` }],
+        };
+      }
+      if (params.action === "unpair") {
+        await runtime.sendControl({ action: "unpair", imei });
+        return {
+          content: [{ type: "text", text: `Unpaired ${imei}` }],
+        };
+      }
+      if (params.action === "get_config") {
+        const ack = await runtime.sendControl({ action: "get_config", imei });
+        return {
+          content: [{ type: "text", text: `Config for ${imei}:\n${JSON.stringify(ack.result ?? {}, null, 2)}` }],
+        };
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { content: [{ type: "text", text: `${params.action} failed for ${imei}: ${msg}` }] };
     }
     return { content: [{ type: "text", text: "Unknown action." }] };
   },
@@ -590,15 +1095,20 @@ export function register(api: OpenClawPluginApi) {
   api.registerTool({
   name: "clawatch_status",
   description: "Check Clawatch connection and paired watches",
-  parameters: { type: "object", properties: {} },
-  execute: async () => {
-    if (!runtime) {
+  parameters: {
+    type: "object",
+    properties: {
+      account: { type: "string", description: "Cloud account id. Omit for all accounts." },
+    },
+  },
+  execute: async (_ctx, params: { account?: string } = {}) => {
+    if (runtimes.size === 0) {
       return {
         content: [{ type: "text", text: "Connected: no\nPaired: unknown (service may not be started)" }],
       };
     }
     return {
-      content: [{ type: "text", text: formatStatus(runtime.isConnected(), runtime.getPairedWatches()) }],
+      content: [{ type: "text", text: formatAllStatus(params.account) }],
     };
   },
   });
@@ -611,21 +1121,36 @@ export function register(api: OpenClawPluginApi) {
     properties: {
       imei: { type: "string", description: "Watch IMEI (15 digits). Omit to use first paired watch." },
       text: { type: "string", description: "Text to push (e.g. reminder message)" },
+      urgent: {
+        type: "boolean",
+        description: "Deliver now even during the watch's quiet hours or do-not-disturb (e.g. medication, safety).",
+      },
     },
     required: ["text"],
   },
-  execute: async (_ctx, params: { imei?: string; text: string }) => {
-    if (!runtime) {
+  execute: async (_ctx, params: { imei?: string; text: string; urgent?: boolean }) => {
+    if (runtimes.size === 0) {
       return { content: [{ type: "text", text: "Clawatch not connected." }] };
     }
-    const watches = runtime.getPairedWatches();
-    const imei = params.imei ?? watches[0]?.imei;
+    const imei = params.imei ?? getAllPairedWatches()[0]?.imei;
     if (!imei) {
       return { content: [{ type: "text", text: "No paired watch." }] };
     }
+    const runtime = getRuntime({ imei })!;
     try {
-      runtime.sendPush(imei, params.text);
-      return { content: [{ type: "text", text: `Pushed to ${imei}: ${params.text.slice(0, 50)}${params.text.length > 50 ? "…" : ""}` }] };
+      const result = await runtime.sendPush(imei, params.text, { urgent: params.urgent });
+      const preview = `${params.text.slice(0, 50)}${params.text.length > 50 ? "…" : ""}`;
+      if (result.status === "held") {
+        const until = new Date(result.holdUntil!).toISOString();
+        return { content: [{ type: "text", text: `${imei} is in quiet hours / do not disturb; held until ${until}: ${preview}` }] };
+      }
+      if (result.status === "queued") {
+        return { content: [{ type: "text", text: `Not connected; queued for ${imei} (delivered on reconnect): ${preview}` }] };
+      }
+      if (result.status === "sent") {
+        return { content: [{ type: "text", text: `Sent to ${imei} (no delivery receipt requested): ${preview}` }] };
+      }
+      return { content: [{ type: "text", text: `Delivered to ${imei}: ${preview}` }] };
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       return { content: [{ type: "text", text: `Push failed: ${msg}` }] };
@@ -633,13 +1158,113 @@ export function register(api: OpenClawPluginApi) {
   },
   });
 
+  // Do-not-disturb tool; factory form so a watch session defaults to its own IMEI
+  api.registerTool((ctx: { sessionKey?: string }) => {
+    const sessionImei = imeiForSessionKey(ctx.sessionKey ?? "", resolveConfig(api.pluginConfig)?.sessionKeyPrefix);
+    return {
+      name: "clawatch_dnd",
+      description:
+        "Turn do-not-disturb on or off for a watch, or check it. While on (and during configured quiet hours) pushes are held and delivered afterwards; urgent pushes still go through.",
+      parameters: {
+        type: "object",
+        properties: {
+          action: { type: "string", enum: ["on", "off", "status"] },
+          minutes: { type: "number", description: `For "on": how long. Default: ${DEFAULT_DND_MIN}.` },
+          imei: { type: "string", description: "Watch IMEI. Omit to use the current watch or first paired watch." },
+        },
+        required: ["action"],
+      },
+      execute: async (_id: string, params: { action: string; minutes?: number; imei?: string }) => {
+        const imei = params.imei ?? sessionImei ?? getAllPairedWatches()[0]?.imei;
+        if (!imei) {
+          return { content: [{ type: "text", text: "No watch specified and no paired watch." }] };
+        }
+        const runtime = getRuntime({ imei });
+        if (!runtime) {
+          return { content: [{ type: "text", text: "Clawatch not connected." }] };
+        }
+        if (params.action === "on") {
+          const minutes = params.minutes && params.minutes > 0 ? params.minutes : DEFAULT_DND_MIN;
+          const until = Date.now() + minutes * 60 * 1000;
+          runtime.setDnd(imei, until);
+          return { content: [{ type: "text", text: `Do not disturb on for ${imei} until ${new Date(until).toISOString()}.` }] };
+        }
+        if (params.action === "off") {
+          runtime.setDnd(imei, null);
+          return { content: [{ type: "text", text: `Do not disturb off for ${imei}; held pushes released.` }] };
+        }
+        if (params.action === "status") {
+          const until = runtime.getQuietUntil(imei);
+          const text = until ? `${imei} is quiet until ${new Date(until).toISOString()}.` : `${imei} is not quiet.`;
+          return { content: [{ type: "text", text }] };
+        }
+        return { content: [{ type: "text", text: "Unknown action. Use on, off or status." }] };
+      },
+    };
+  });
+
+  // Sensor history tool: aggregates over stored MessageContext snapshots.
+  // Factory form so a watch session defaults to its own IMEI.
+  api.registerTool((ctx: { sessionKey?: string }) => {
+    const sessionImei = imeiForSessionKey(ctx.sessionKey ?? "", resolveConfig(api.pluginConfig)?.sessionKeyPrefix);
+    return {
+      name: "clawatch_history",
+      description:
+        "Query a watch's stored sensor history (heart rate, blood oxygen, temperature, blood pressure, steps, battery) with min/max/avg and daily totals. Use for trends like 'heart rate this week' or 'steps yesterday'.",
+      parameters: {
+        type: "object",
+        properties: {
+          metric: { type: "string", enum: SENSOR_METRICS },
+          period: {
+            type: "string",
+            enum: ["today", "yesterday", "week", "month"],
+            description: "week = last 7 days, month = last 30 days (today included). Default: week.",
+          },
+          imei: { type: "string", description: "Watch IMEI. Omit to use the current watch or first paired watch." },
+        },
+        required: ["metric"],
+      },
+      execute: async (_id: string, params: { metric: SensorMetric; period?: string; imei?: string }) => {
+        const config = resolveConfig(api.pluginConfig);
+        if (config?.sensorHistoryEnabled === false) {
+          return { content: [{ type: "text", text: "Sensor history is disabled (sensorHistoryEnabled: false)." }] };
+        }
+        if (!SENSOR_METRICS.includes(params.metric)) {
+          return { content: [{ type: "text", text: `Unknown metric. Use one of: ${SENSOR_METRICS.join(", ")}.` }] };
+        }
+        const imei = params.imei ?? sessionImei ?? getAllPairedWatches()[0]?.imei;
+        if (!imei) {
+          return { content: [{ type: "text", text: "No watch specified and no paired watch." }] };
+        }
+        const periods: Record<string, { days: number; offsetDays: number; label: string }> = {
+          today: { days: 1, offsetDays: 0, label: "today" },
+          yesterday: { days: 1, offsetDays: 1, label: "yesterday" },
+          week: { days: 7, offsetDays: 0, label: "over the last 7 days" },
+          month: { days: 30, offsetDays: 0, label: "over the last 30 days" },
+        };
+        const period = periods[params.period ?? "week"] ?? periods.week!;
+        const store = createSensorStore(join(resolveStateDir(), SENSOR_DIR), {
+          retentionDays: config?.sensorRetentionDays,
+        });
+        // Day boundaries follow the wearer's time zone, not the Gateway host's
+        const summary = store.summarize(imei, params.metric, {
+          days: period.days,
+          offsetDays: period.offsetDays,
+          timeZone: config ? resolveWatchProfile(config, imei).timeZone : undefined,
+        });
+        return { content: [{ type: "text", text: formatSensorSummary(summary, period.label) }] };
+      },
+    };
+  });
+
   // Interim status tool: send brief contextual status before long-running tools
   // Use factory form to get sessionKey from ctx at run time
   api.registerTool((ctx: { sessionKey?: string; messageChannel?: string }) => {
     // Parse IMEI from sessionKey at tool creation time (per run)
     const sessionKey = ctx.sessionKey ?? "";
-    const sessionImei = parseImeiFromSessionKey(sessionKey);
-    const logger = runtime?.logger;
+    const sessionImei = imeiForSessionKey(sessionKey, resolveConfig(api.pluginConfig)?.sessionKeyPrefix);
+    const runtime = sessionImei ? getRuntime({ imei: sessionImei }) : null;
+    const logger = (runtime ?? getRuntime())?.logger;
     
     logger?.info?.(`clawatch_interim factory: sessionKey=${sessionKey} sessionImei=${sessionImei ?? "(none)"} messageChannel=${ctx.messageChannel ?? "(none)"}`);
     
@@ -660,7 +1285,7 @@ export function register(api: OpenClawPluginApi) {
       execute: async (_id: string, params: { message?: string }) => {
         logger?.info?.(`clawatch_interim called: sessionKey=${sessionKey} sessionImei=${sessionImei ?? "(none)"} message=${params.message ?? "(none)"}`);
         
-        // Only allow for clawatch sessions (sessionKey starts with "clawatch:")
+        // Only allow for clawatch sessions (a watch's session key, or one a watch has talked in)
         if (!sessionImei) {
           logger?.info?.(`clawatch_interim: skipped, not a clawatch session (sessionKey=${sessionKey})`);
           return { content: [{ type: "text", text: "Skipped: not a clawatch session." }] };
@@ -683,7 +1308,8 @@ export function register(api: OpenClawPluginApi) {
         
         const text = String(params.message?.trim() || "ok").slice(0, 80);
         try {
-          runtime.sendPush(sessionImei, text);
+          // Interim status is only useful right now; never queue it for later
+          await runtime.sendPush(sessionImei, text, { queue: false, interim: true });
           logger?.info?.(`clawatch_interim: sent to ${sessionImei}: ${text}`);
           return { content: [{ type: "text", text: `Sent interim: ${text}` }] };
         } catch (err) {
@@ -711,7 +1337,7 @@ export function register(api: OpenClawPluginApi) {
       }
       
       // Always inject prependContext; the tool will filter non-clawatch sessions via sessionKey
-      const logger = runtime?.logger;
+      const logger = getRuntime()?.logger;
       logger?.info?.("before_agent_start: injecting prependContext for clawatch interim");
       return {
         prependContext:
@@ -0,0 +1,361 @@
+/**
+ * Short phrases the plugin speaks itself (not the agent), per language. Looked up by
+ * the watch profile's BCP 47 locale: exact tag first, then the base language, then English.
+ */
+
+export type SpokenPhrase =
+  | "unreachable"
+  | "failed"
+  | "stopped"
+  | "newConversation"
+  | "agentSwitched"
+  | "agentUnknown"
+  | "nothingToRepeat"
+  | "battery"
+  | "steps"
+  | "noReadings"
+  | "done"
+  | "link"
+  | "codeSkipped"
+  | "celsius"
+  | "fahrenheit"
+  | "bpm"
+  | "percent"
+  | "mmHg"
+  | "moreAvailable"
+  | "nothingMore"
+  | "mediaImage"
+  | "mediaAudio"
+  | "mediaVideo"
+  | "mediaDocument"
+  | "mediaFile"
+  | "mediaShared"
+  | "mediaSharedNamed"
+  | "dndOn"
+  | "dndOff";
+
+const PHRASES: Record<string, Record<SpokenPhrase, string>> = {
+  en: {
+    unreachable: "I can't reach your assistant right now, I'll try again shortly.",
+    failed: "Sorry, something went wrong. Please ask me again.",
+    stopped: "Okay, stopped.",
+    newConversation: "Okay, let's start a new conversation.",
+    agentSwitched: "Okay, you're now talking to {agent}.",
+    agentUnknown: "I don't know an agent called {agent}. You can switch to {agents}.",
+    nothingToRepeat: "I haven't said anything yet.",
+    battery: "Battery is at {value} percent.",
+    steps: "{value} steps today.",
+    noReadings: "I don't have any readings from the watch yet.",
+    done: "Done.",
+    link: "a link",
+    codeSkipped: "I've skipped a code example.",
+    celsius: "{value} degrees Celsius",
+    fahrenheit: "{value} degrees Fahrenheit",
+    bpm: "{value} beats per minute",
+    percent: "{value} percent",
+    mmHg: "{value} millimeters of mercury",
+    moreAvailable: "Say \"more\" to hear the rest.",
+    nothingMore: "That's everything.",
+    mediaImage: "a photo",
+    mediaAudio: "an audio clip",
+    mediaVideo: "a video",
+    mediaDocument: "a document",
+    mediaFile: "a file",
+    mediaShared: "Sent you {media}.",
+    mediaSharedNamed: "Sent you {media}: {name}.",
+    dndOn: "Okay, I'll hold messages until {time}.",
+    dndOff: "Okay, do not disturb is off.",
+  },
+  "zh-TW": {
+    unreachable: "現在連不上你的助理，請稍後再試。",
+    failed: "抱歉，出了點問題，請再問一次。",
+    stopped: "好的，已停止。",
+    newConversation: "好的，我們重新開始吧。",
+    agentSwitched: "好的，現在由 {agent} 為你服務。",
+    agentUnknown: "我不認識叫 {agent} 的助理。可以切換到：{agents}。",
+    nothingToRepeat: "我還沒有說過話。",
+    battery: "電量還有百分之{value}。",
+    steps: "今天走了{value}步。",
+    noReadings: "還沒有收到手錶的數據。",
+    done: "好了。",
+    link: "一個連結",
+    codeSkipped: "我略過了一段程式碼。",
+    celsius: "攝氏{value}度",
+    fahrenheit: "華氏{value}度",
+    bpm: "每分鐘{value}下",
+    percent: "百分之{value}",
+    mmHg: "{value}毫米汞柱",
+    moreAvailable: "想聽下去請說「繼續」。",
+    nothingMore: "就這些了。",
+    mediaImage: "一張照片",
+    mediaAudio: "一段音訊",
+    mediaVideo: "一段影片",
+    mediaDocument: "一份文件",
+    mediaFile: "一個檔案",
+    mediaShared: "傳來{media}。",
+    mediaSharedNamed: "傳來{media}：{name}。",
+    dndOn: "好的，{time}之前的訊息我會先保留。",
+    dndOff: "好的，已關閉勿擾。",
+  },
+  zh: {
+    unreachable: "现在连不上你的助理，请稍后再试。",
+    failed: "抱歉，出了点问题，请再问一次。",
+    stopped: "好的，已停止。",
+    newConversation: "好的，我们重新开始吧。",
+    agentSwitched: "好的，现在由 {agent} 为你服务。",
+    agentUnknown: "我不认识叫 {agent} 的助理。可以切换到：{agents}。",
+    nothingToRepeat: "我还没有说过话。",
+    battery: "电量还有百分之{value}。",
+    steps: "今天走了{value}步。",
+    noReadings: "还没有收到手表的数据。",
+    done: "好了。",
+    link: "一个链接",
+    codeSkipped: "我略过了一段代码。",
+    celsius: "摄氏{value}度",
+    fahrenheit: "华氏{value}度",
+    bpm: "每分钟{value}次",
+    percent: "百分之{value}",
+    mmHg: "{value}毫米汞柱",
+    moreAvailable: "想听下去请说“继续”。",
+    nothingMore: "就这些了。",
+    mediaImage: "一张照片",
+    mediaAudio: "一段音频",
+    mediaVideo: "一段视频",
+    mediaDocument: "一份文档",
+    mediaFile: "一个文件",
+    mediaShared: "发来{media}。",
+    mediaSharedNamed: "发来{media}：{name}。",
+    dndOn: "好的，{time}之前的消息我会先保留。",
+    dndOff: "好的，已关闭免打扰。",
+  },
+  ms: {
+    unreachable: "Saya tidak dapat menghubungi pembantu anda sekarang, saya akan cuba lagi sebentar lagi.",
+    failed: "Maaf, ada masalah. Sila tanya sekali lagi.",
+    stopped: "Baik, dihentikan.",
+    newConversation: "Baik, mari mulakan perbualan baharu.",
+    agentSwitched: "Baik, anda kini bercakap dengan {agent}.",
+    agentUnknown: "Saya tidak kenal ejen bernama {agent}. Anda boleh tukar ke {agents}.",
+    nothingToRepeat: "Saya belum berkata apa-apa lagi.",
+    battery: "Bateri pada {value} peratus.",
+    steps: "{value} langkah hari ini.",
+    noReadings: "Belum ada bacaan daripada jam tangan.",
+    done: "Selesai.",
+    link: "satu pautan",
+    codeSkipped: "Saya langkau contoh kod.",
+    celsius: "{value} darjah Celsius",
+    fahrenheit: "{value} darjah Fahrenheit",
+    bpm: "{value} denyutan seminit",
+    percent: "{value} peratus",
+    mmHg: "{value} milimeter merkuri",
+    moreAvailable: "Sebut \"lagi\" untuk mendengar selebihnya.",
+    nothingMore: "Itu sahaja.",
+    mediaImage: "sekeping foto",
+    mediaAudio: "klip audio",
+    mediaVideo: "sebuah video",
+    mediaDocument: "sebuah dokumen",
+    mediaFile: "sebuah fail",
+    mediaShared: "Menghantar {media}.",
+    mediaSharedNamed: "Menghantar {media}: {name}.",
+    dndOn: "Baik, saya akan tahan mesej sehingga {time}.",
+    dndOff: "Baik, mod jangan ganggu dimatikan.",
+  },
+  id: {
+    unreachable: "Saya tidak bisa menghubungi asisten Anda sekarang, saya akan mencoba lagi sebentar lagi.",
+    failed: "Maaf, terjadi kesalahan. Silakan tanya lagi.",
+    stopped: "Baik, dihentikan.",
+    newConversation: "Baik, mari mulai percakapan baru.",
+    agentSwitched: "Baik, sekarang Anda berbicara dengan {agent}.",
+    agentUnknown: "Saya tidak mengenal agen bernama {agent}. Anda bisa beralih ke {agents}.",
+    nothingToRepeat: "Saya belum mengatakan apa pun.",
+    battery: "Baterai {value} persen.",
+    steps: "{value} langkah hari ini.",
+    noReadings: "Belum ada data dari jam tangan.",
+    done: "Selesai.",
+    link: "sebuah tautan",
+    codeSkipped: "Saya lewati contoh kode.",
+    celsius: "{value} derajat Celsius",
+    fahrenheit: "{value} derajat Fahrenheit",
+    bpm: "{value} denyut per menit",
+    percent: "{value} persen",
+    mmHg: "{value} milimeter air raksa",
+    moreAvailable: "Ucapkan \"lagi\" untuk mendengar sisanya.",
+    nothingMore: "Itu saja.",
+    mediaImage: "sebuah foto",
+    mediaAudio: "klip audio",
+    mediaVideo: "sebuah video",
+    mediaDocument: "sebuah dokumen",
+    mediaFile: "sebuah berkas",
+    mediaShared: "Mengirim {media}.",
+    mediaSharedNamed: "Mengirim {media}: {name}.",
+    dndOn: "Baik, pesan akan saya tahan sampai {time}.",
+    dndOff: "Baik, mode jangan ganggu dimatikan.",
+  },
+  ja: {
+    unreachable: "いまアシスタントにつながりません。少ししてからもう一度試します。",
+    failed: "すみません、問題が起きました。もう一度聞いてください。",
+    stopped: "はい、止めました。",
+    newConversation: "はい、新しい会話を始めましょう。",
+    agentSwitched: "はい、ここからは {agent} がお答えします。",
+    agentUnknown: "{agent} というエージェントは見つかりません。切り替えられるのは {agents} です。",
+    nothingToRepeat: "まだ何も話していません。",
+    battery: "電池は残り{value}パーセントです。",
+    steps: "今日は{value}歩です。",
+    noReadings: "まだ時計からのデータがありません。",
+    done: "完了しました。",
+    link: "リンク",
+    codeSkipped: "コードの例は省略しました。",
+    celsius: "摂氏{value}度",
+    fahrenheit: "華氏{value}度",
+    bpm: "毎分{value}回",
+    percent: "{value}パーセント",
+    mmHg: "{value}ミリメートル水銀柱",
+    moreAvailable: "続きは「続けて」と言ってください。",
+    nothingMore: "以上です。",
+    mediaImage: "写真",
+    mediaAudio: "音声",
+    mediaVideo: "動画",
+    mediaDocument: "文書",
+    mediaFile: "ファイル",
+    mediaShared: "{media}が届きました。",
+    mediaSharedNamed: "{media}が届きました：{name}。",
+    dndOn: "はい、{time}までメッセージを保留します。",
+    dndOff: "はい、おやすみモードを解除しました。",
+  },
+  ko: {
+    unreachable: "지금은 비서에 연결할 수 없어요. 잠시 후에 다시 시도할게요.",
+    failed: "죄송해요, 문제가 생겼어요. 다시 물어봐 주세요.",
+    stopped: "네, 멈췄어요.",
+    newConversation: "네, 새 대화를 시작할게요.",
+    agentSwitched: "네, 이제 {agent}와 대화합니다.",
+    agentUnknown: "{agent}라는 에이전트를 찾을 수 없어요. {agents} 중에서 고를 수 있어요.",
+    nothingToRepeat: "아직 아무 말도 하지 않았어요.",
+    battery: "배터리는 {value}퍼센트예요.",
+    steps: "오늘 {value}걸음 걸었어요.",
+    noReadings: "아직 시계에서 받은 정보가 없어요.",
+    done: "완료했어요.",
+    link: "링크",
+    codeSkipped: "코드 예시는 건너뛰었어요.",
+    celsius: "섭씨 {value}도",
+    fahrenheit: "화씨 {value}도",
+    bpm: "분당 {value}회",
+    percent: "{value}퍼센트",
+    mmHg: "{value}밀리미터 수은주",
+    moreAvailable: "나머지를 들으려면 \"계속\"이라고 말하세요.",
+    nothingMore: "이게 전부예요.",
+    mediaImage: "사진",
+    mediaAudio: "오디오",
+    mediaVideo: "동영상",
+    mediaDocument: "문서",
+    mediaFile: "파일",
+    mediaShared: "{media} 수신.",
+    mediaSharedNamed: "{media} 수신: {name}.",
+    dndOn: "네, {time}까지 메시지를 보류할게요.",
+    dndOff: "네, 방해 금지를 껐어요.",
+  },
+  es: {
+    unreachable: "Ahora no puedo contactar con tu asistente, lo intentaré de nuevo en un momento.",
+    failed: "Lo siento, algo salió mal. Pregúntame otra vez.",
+    stopped: "Vale, detenido.",
+    newConversation: "Vale, empecemos una conversación nueva.",
+    agentSwitched: "Vale, ahora hablas con {agent}.",
+    agentUnknown: "No conozco ningún agente llamado {agent}. Puedes cambiar a {agents}.",
+    nothingToRepeat: "Todavía no he dicho nada.",
+    battery: "La batería está al {value} por ciento.",
+    steps: "{value} pasos hoy.",
+    noReadings: "Todavía no tengo datos del reloj.",
+    done: "Hecho.",
+    link: "un enlace",
+    codeSkipped: "He omitido un ejemplo de código.",
+    celsius: "{value} grados Celsius",
+    fahrenheit: "{value} grados Fahrenheit",
+    bpm: "{value} latidos por minuto",
+    percent: "{value} por ciento",
+    mmHg: "{value} milímetros de mercurio",
+    moreAvailable: "Di \"más\" para escuchar el resto.",
+    nothingMore: "Eso es todo.",
+    mediaImage: "una foto",
+    mediaAudio: "un audio",
+    mediaVideo: "un vídeo",
+    mediaDocument: "un documento",
+    mediaFile: "un archivo",
+    mediaShared: "Te han enviado {media}.",
+    mediaSharedNamed: "Te han enviado {media}: {name}.",
+    dndOn: "Vale, guardaré los mensajes hasta las {time}.",
+    dndOff: "Vale, no molestar desactivado.",
+  },
+  fr: {
+    unreachable: "Je n'arrive pas à joindre ton assistant pour le moment, je réessaierai bientôt.",
+    failed: "Désolé, un problème est survenu. Redemande-moi.",
+    stopped: "D'accord, arrêté.",
+    newConversation: "D'accord, commençons une nouvelle conversation.",
+    agentSwitched: "D'accord, tu parles maintenant à {agent}.",
+    agentUnknown: "Je ne connais pas d'agent nommé {agent}. Tu peux passer à {agents}.",
+    nothingToRepeat: "Je n'ai encore rien dit.",
+    battery: "La batterie est à {value} pour cent.",
+    steps: "{value} pas aujourd'hui.",
+    noReadings: "Je n'ai encore aucune mesure de la montre.",
+    done: "C'est fait.",
+    link: "un lien",
+    codeSkipped: "J'ai sauté un exemple de code.",
+    celsius: "{value} degrés Celsius",
+    fahrenheit: "{value} degrés Fahrenheit",
+    bpm: "{value} battements par minute",
+    percent: "{value} pour cent",
+    mmHg: "{value} millimètres de mercure",
+    moreAvailable: "Dis « encore » pour entendre la suite.",
+    nothingMore: "C'est tout.",
+    mediaImage: "une photo",
+    mediaAudio: "un extrait audio",
+    mediaVideo: "une vidéo",
+    mediaDocument: "un document",
+    mediaFile: "un fichier",
+    mediaShared: "On t'a envoyé {media}.",
+    mediaSharedNamed: "On t'a envoyé {media} : {name}.",
+    dndOn: "D'accord, je garde les messages jusqu'à {time}.",
+    dndOff: "D'accord, ne pas déranger est désactivé.",
+  },
+  de: {
+    unreachable: "Ich erreiche deinen Assistenten gerade nicht, ich versuche es gleich noch einmal.",
+    failed: "Entschuldigung, da ist etwas schiefgegangen. Frag mich bitte noch einmal.",
+    stopped: "Okay, gestoppt.",
+    newConversation: "Okay, fangen wir ein neues Gespräch an.",
+    agentSwitched: "Okay, du sprichst jetzt mit {agent}.",
+    agentUnknown: "Ich kenne keinen Agenten namens {agent}. Du kannst zu {agents} wechseln.",
+    nothingToRepeat: "Ich habe noch nichts gesagt.",
+    battery: "Der Akku ist bei {value} Prozent.",
+    steps: "{value} Schritte heute.",
+    noReadings: "Ich habe noch keine Werte von der Uhr.",
+    done: "Erledigt.",
+    link: "ein Link",
+    codeSkipped: "Ich habe ein Codebeispiel ausgelassen.",
+    celsius: "{value} Grad Celsius",
+    fahrenheit: "{value} Grad Fahrenheit",
+    bpm: "{value} Schläge pro Minute",
+    percent: "{value} Prozent",
+    mmHg: "{value} Millimeter Quecksilbersäule",
+    moreAvailable: "Sag „weiter“, um den Rest zu hören.",
+    nothingMore: "Das ist alles.",
+    mediaImage: "ein Foto",
+    mediaAudio: "eine Audiodatei",
+    mediaVideo: "ein Video",
+    mediaDocument: "ein Dokument",
+    mediaFile: "eine Datei",
+    mediaShared: "Neu für dich: {media}.",
+    mediaSharedNamed: "Neu für dich: {media}, {name}.",
+    dndOn: "Okay, ich halte Nachrichten bis {time} zurück.",
+    dndOff: "Okay, nicht stören ist aus.",
+  },
+};
+
+/** Phrase table key for a locale: "zh-Hant-HK" and "zh-HK" use traditional Chinese. */
+function phrasesFor(locale?: string): Record<SpokenPhrase, string> {
+  if (!locale) return PHRASES.en!;
+  const tag = locale.replace(/_/g, "-").toLowerCase();
+  if (/^zh-(hant|tw|hk|mo)\b/.test(tag)) return PHRASES["zh-TW"]!;
+  return PHRASES[tag] ?? PHRASES[tag.split("-")[0]!] ?? PHRASES.en!;
+}
+
+/** A phrase in the watch's language, with {name} placeholders filled from `vars`. */
+export function spokenPhrase(phrase: SpokenPhrase, locale?: string, vars: Record<string, string | number> = {}): string {
+  return phrasesFor(locale)[phrase].replace(/\{(\w+)\}/g, (m, name: string) => (name in vars ? String(vars[name]) : m));
+}
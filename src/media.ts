@@ -0,0 +1,103 @@
+/**
+ * Media deliveries on a screenless watch: an image, file or link sent to the channel is
+ * spoken as text instead (caption, what kind of media it is and its name, plus an optional
+ * agent-written summary of the content).
+ */
+import { spokenPhrase, type SpokenPhrase } from "./locale.js";
+
+export type MediaKind = "image" | "audio" | "video" | "document" | "file" | "link";
+
+const EXTENSION_KINDS: Record<string, MediaKind> = {};
+for (const [kind, exts] of Object.entries({
+  image: "jpg jpeg png gif webp heic heif bmp svg tif tiff",
+  audio: "mp3 m4a aac wav ogg oga opus flac amr",
+  video: "mp4 mov webm mkv avi m4v 3gp",
+  document: "pdf doc docx xls xlsx ppt pptx txt md csv rtf odt ods odp epub",
+})) {
+  for (const ext of exts.split(" ")) EXTENSION_KINDS[ext] = kind as MediaKind;
+}
+
+const KIND_PHRASES: Record<MediaKind, SpokenPhrase> = {
+  image: "mediaImage",
+  audio: "mediaAudio",
+  video: "mediaVideo",
+  document: "mediaDocument",
+  file: "mediaFile",
+  link: "link",
+};
+
+/** Last path segment of a URL or file path, without query or fragment; null for data: URLs. */
+function fileNameOf(mediaUrl: string): string | null {
+  if (/^data:/i.test(mediaUrl)) return null;
+  const path = mediaUrl.replace(/[?#].*$/, "").replace(/\/+$/, "");
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  try {
+    return decodeURIComponent(name) || null;
+  } catch {
+    return name || null;
+  }
+}
+
+/** Kind of media from a data: URL's MIME type or the file extension; web pages count as links. */
+export function mediaKind(mediaUrl: string): MediaKind {
+  const mime = mediaUrl.match(/^data:([\w-]+)\//i)?.[1]?.toLowerCase();
+  if (mime) {
+    if (mime === "image" || mime === "audio" || mime === "video") return mime;
+    return mime === "text" ? "document" : "file";
+  }
+  const ext = fileNameOf(mediaUrl)?.match(/\.(\w+)$/)?.[1]?.toLowerCase();
+  if (ext && EXTENSION_KINDS[ext]) return EXTENSION_KINDS[ext];
+  if (ext && !/^html?$|^php$|^aspx?$/.test(ext)) return "file";
+  return /^https?:\/\//i.test(mediaUrl) ? "link" : "file";
+}
+
+/**
+ * Speakable name: the file name without extension and with _ and - as spaces
+ * ("IMG_2024.jpg" → "IMG 2024"), or the host for a link.
+ */
+export function mediaName(mediaUrl: string): string | null {
+  if (mediaKind(mediaUrl) === "link") {
+    try {
+      return new URL(mediaUrl).hostname.replace(/^www\./, "") || null;
+    } catch {
+      return null;
+    }
+  }
+  const name = fileNameOf(mediaUrl)
+    ?.replace(/\.\w+$/, "")
+    .replace(/[_-]+/g, " ")
+    .trim();
+  return name || null;
+}
+
+/** "Sent you a photo: beach day." in the watch's language. */
+export function describeMedia(mediaUrl: string, locale?: string): string {
+  const media = spokenPhrase(KIND_PHRASES[mediaKind(mediaUrl)], locale);
+  const name = mediaName(mediaUrl);
+  return name ? spokenPhrase("mediaSharedNamed", locale, { media, name }) : spokenPhrase("mediaShared", locale, { media });
+}
+
+/** Prompt asking the agent for a short spoken summary of the media's content. */
+export function mediaSummaryPrompt(mediaUrl: string, caption?: string): string {
+  const kind = mediaKind(mediaUrl);
+  const about = caption?.trim() ? ` with the caption "${caption.trim()}"` : "";
+  return (
+    `A ${kind} was sent to the user's watch${about}: ${mediaUrl}\n` +
+    "The watch has no screen. In one or two short spoken sentences, say what it contains. Reply with the summary only."
+  );
+}
+
+/**
+ * Session for media summaries: apart from the watch conversation, and shaped so it never
+ * parses as a watch session ("clawatch:media:<imei>"), so tools in it cannot speak on the watch.
+ */
+export function mediaSummarySessionKey(prefix: string, imei: string): string {
+  return `${prefix}media:${imei}`;
+}
+
+/** Text pushed in place of a media delivery: caption, media description, then the summary if any. */
+export function mediaDeliveryText(opts: { mediaUrl: string; caption?: string; summary?: string | null; locale?: string }): string {
+  // Close the caption like a sentence so TTS pauses before the description
+  const caption = opts.caption?.trim().replace(/([^\p{P}])$/u, "$1.");
+  return [caption, describeMedia(opts.mediaUrl, opts.locale), opts.summary?.trim()].filter(Boolean).join(" ");
+}
@@ -0,0 +1,115 @@
+/**
+ * Bundled dataset for the offline reverse geocoder: major cities worldwide, plus
+ * Singapore districts (where the Clawatch cloud is hosted), and country bounding boxes
+ * for everywhere else. Radii and boxes are rough catchment areas, not administrative
+ * boundaries.
+ */
+import type { CountryBounds, GeoPlace } from "./geocode.js";
+
+const KM = 1000;
+
+const SINGAPORE_DISTRICTS: GeoPlace[] = [
+  { name: "Orchard Road", country: "Singapore", lat: 1.3048, lng: 103.8318, radiusM: 1.2 * KM },
+  { name: "Marina Bay", country: "Singapore", lat: 1.2834, lng: 103.8607, radiusM: 1.2 * KM },
+  { name: "Chinatown", country: "Singapore", lat: 1.2836, lng: 103.8444, radiusM: 0.8 * KM },
+  { name: "Bugis", country: "Singapore", lat: 1.3008, lng: 103.8553, radiusM: 0.8 * KM },
+  { name: "Sentosa", country: "Singapore", lat: 1.2494, lng: 103.8303, radiusM: 1.5 * KM },
+  { name: "Toa Payoh", country: "Singapore", lat: 1.3343, lng: 103.8563, radiusM: 1.5 * KM },
+  { name: "Bishan", country: "Singapore", lat: 1.3526, lng: 103.8352, radiusM: 1.5 * KM },
+  { name: "Ang Mo Kio", country: "Singapore", lat: 1.3691, lng: 103.8454, radiusM: 2 * KM },
+  { name: "Yishun", country: "Singapore", lat: 1.4304, lng: 103.8354, radiusM: 1.5 * KM },
+  { name: "Woodlands", country: "Singapore", lat: 1.4382, lng: 103.789, radiusM: 2 * KM },
+  { name: "Sengkang", country: "Singapore", lat: 1.3868, lng: 103.8914, radiusM: 1.5 * KM },
+  { name: "Punggol", country: "Singapore", lat: 1.4043, lng: 103.9021, radiusM: 1.5 * KM },
+  { name: "Tampines", country: "Singapore", lat: 1.3496, lng: 103.9568, radiusM: 2 * KM },
+  { name: "Bedok", country: "Singapore", lat: 1.3236, lng: 103.9273, radiusM: 1.5 * KM },
+  { name: "Changi Airport", country: "Singapore", lat: 1.3644, lng: 103.9915, radiusM: 2 * KM },
+  { name: "Clementi", country: "Singapore", lat: 1.3162, lng: 103.7649, radiusM: 1.5 * KM },
+  { name: "Jurong East", country: "Singapore", lat: 1.3329, lng: 103.7436, radiusM: 1.5 * KM },
+];
+
+const CITIES: GeoPlace[] = [
+  { name: "Singapore", country: "Singapore", lat: 1.3521, lng: 103.8198, radiusM: 25 * KM },
+  { name: "Johor Bahru", country: "Malaysia", lat: 1.4927, lng: 103.7414, radiusM: 15 * KM },
+  { name: "Kuala Lumpur", country: "Malaysia", lat: 3.139, lng: 101.6869, radiusM: 30 * KM },
+  { name: "George Town", country: "Malaysia", lat: 5.4141, lng: 100.3288, radiusM: 20 * KM },
+  { name: "Jakarta", country: "Indonesia", lat: -6.2088, lng: 106.8456, radiusM: 40 * KM },
+  { name: "Bangkok", country: "Thailand", lat: 13.7563, lng: 100.5018, radiusM: 40 * KM },
+  { name: "Manila", country: "Philippines", lat: 14.5995, lng: 120.9842, radiusM: 30 * KM },
+  { name: "Ho Chi Minh City", country: "Vietnam", lat: 10.8231, lng: 106.6297, radiusM: 30 * KM },
+  { name: "Hanoi", country: "Vietnam", lat: 21.0278, lng: 105.8342, radiusM: 30 * KM },
+  { name: "Hong Kong", country: "Hong Kong", lat: 22.3193, lng: 114.1694, radiusM: 25 * KM },
+  { name: "Shenzhen", country: "China", lat: 22.5431, lng: 114.0579, radiusM: 30 * KM },
+  { name: "Guangzhou", country: "China", lat: 23.1291, lng: 113.2644, radiusM: 40 * KM },
+  { name: "Shanghai", country: "China", lat: 31.2304, lng: 121.4737, radiusM: 50 * KM },
+  { name: "Beijing", country: "China", lat: 39.9042, lng: 116.4074, radiusM: 50 * KM },
+  { name: "Taipei", country: "Taiwan", lat: 25.033, lng: 121.5654, radiusM: 30 * KM },
+  { name: "Seoul", country: "South Korea", lat: 37.5665, lng: 126.978, radiusM: 40 * KM },
+  { name: "Tokyo", country: "Japan", lat: 35.6762, lng: 139.6503, radiusM: 50 * KM },
+  { name: "Osaka", country: "Japan", lat: 34.6937, lng: 135.5023, radiusM: 30 * KM },
+  { name: "Mumbai", country: "India", lat: 19.076, lng: 72.8777, radiusM: 40 * KM },
+  { name: "Delhi", country: "India", lat: 28.7041, lng: 77.1025, radiusM: 40 * KM },
+  { name: "Bengaluru", country: "India", lat: 12.9716, lng: 77.5946, radiusM: 30 * KM },
+  { name: "Dubai", country: "United Arab Emirates", lat: 25.2048, lng: 55.2708, radiusM: 40 * KM },
+  { name: "Sydney", country: "Australia", lat: -33.8688, lng: 151.2093, radiusM: 50 * KM },
+  { name: "Melbourne", country: "Australia", lat: -37.8136, lng: 144.9631, radiusM: 50 * KM },
+  { name: "Perth", country: "Australia", lat: -31.9505, lng: 115.8605, radiusM: 40 * KM },
+  { name: "Auckland", country: "New Zealand", lat: -36.8485, lng: 174.7633, radiusM: 30 * KM },
+  { name: "London", country: "United Kingdom", lat: 51.5074, lng: -0.1278, radiusM: 40 * KM },
+  { name: "Paris", country: "France", lat: 48.8566, lng: 2.3522, radiusM: 30 * KM },
+  { name: "Amsterdam", country: "Netherlands", lat: 52.3676, lng: 4.9041, radiusM: 20 * KM },
+  { name: "Berlin", country: "Germany", lat: 52.52, lng: 13.405, radiusM: 30 * KM },
+  { name: "Madrid", country: "Spain", lat: 40.4168, lng: -3.7038, radiusM: 30 * KM },
+  { name: "Rome", country: "Italy", lat: 41.9028, lng: 12.4964, radiusM: 30 * KM },
+  { name: "Cairo", country: "Egypt", lat: 30.0444, lng: 31.2357, radiusM: 30 * KM },
+  { name: "Lagos", country: "Nigeria", lat: 6.5244, lng: 3.3792, radiusM: 30 * KM },
+  { name: "Nairobi", country: "Kenya", lat: -1.2921, lng: 36.8219, radiusM: 25 * KM },
+  { name: "Johannesburg", country: "South Africa", lat: -26.2041, lng: 28.0473, radiusM: 30 * KM },
+  { name: "New York", country: "United States", lat: 40.7128, lng: -74.006, radiusM: 40 * KM },
+  { name: "Chicago", country: "United States", lat: 41.8781, lng: -87.6298, radiusM: 40 * KM },
+  { name: "San Francisco", country: "United States", lat: 37.7749, lng: -122.4194, radiusM: 25 * KM },
+  { name: "Los Angeles", country: "United States", lat: 34.0522, lng: -118.2437, radiusM: 50 * KM },
+  { name: "Toronto", country: "Canada", lat: 43.6532, lng: -79.3832, radiusM: 40 * KM },
+  { name: "Vancouver", country: "Canada", lat: 49.2827, lng: -123.1207, radiusM: 30 * KM },
+  { name: "Mexico City", country: "Mexico", lat: 19.4326, lng: -99.1332, radiusM: 40 * KM },
+  { name: "São Paulo", country: "Brazil", lat: -23.5505, lng: -46.6333, radiusM: 50 * KM },
+];
+
+export const BUNDLED_PLACES: GeoPlace[] = [...SINGAPORE_DISTRICTS, ...CITIES];
+
+/** Mainland extents only; where boxes overlap, the smaller country wins. */
+export const BUNDLED_COUNTRIES: CountryBounds[] = [
+  { name: "Singapore", south: 1.15, west: 103.6, north: 1.48, east: 104.1 },
+  { name: "Malaysia", south: 0.85, west: 99.6, north: 7.4, east: 119.3 },
+  { name: "Brunei", south: 4.0, west: 114.0, north: 5.1, east: 115.4 },
+  { name: "Indonesia", south: -11.0, west: 95.0, north: 6.0, east: 141.0 },
+  { name: "Thailand", south: 5.6, west: 97.3, north: 20.5, east: 105.7 },
+  { name: "Cambodia", south: 10.4, west: 102.3, north: 14.7, east: 107.7 },
+  { name: "Laos", south: 13.9, west: 100.1, north: 22.5, east: 107.7 },
+  { name: "Myanmar", south: 9.8, west: 92.2, north: 28.6, east: 101.2 },
+  { name: "Vietnam", south: 8.4, west: 102.1, north: 23.4, east: 109.5 },
+  { name: "Philippines", south: 4.5, west: 116.9, north: 21.2, east: 126.7 },
+  { name: "Hong Kong", south: 22.15, west: 113.8, north: 22.57, east: 114.45 },
+  { name: "Taiwan", south: 21.9, west: 119.3, north: 25.4, east: 122.1 },
+  { name: "China", south: 18.1, west: 73.5, north: 53.6, east: 134.8 },
+  { name: "South Korea", south: 33.1, west: 124.6, north: 38.7, east: 131.9 },
+  { name: "Japan", south: 24.0, west: 122.9, north: 45.6, east: 145.9 },
+  { name: "India", south: 6.7, west: 68.1, north: 35.5, east: 97.4 },
+  { name: "United Arab Emirates", south: 22.6, west: 51.5, north: 26.1, east: 56.4 },
+  { name: "Australia", south: -43.7, west: 112.9, north: -10.6, east: 153.7 },
+  { name: "New Zealand", south: -47.3, west: 166.4, north: -34.4, east: 178.6 },
+  { name: "United Kingdom", south: 49.9, west: -8.2, north: 60.9, east: 1.8 },
+  { name: "France", south: 42.3, west: -4.8, north: 51.1, east: 8.2 },
+  { name: "Netherlands", south: 50.75, west: 3.35, north: 53.55, east: 7.23 },
+  { name: "Germany", south: 47.3, west: 5.9, north: 55.1, east: 15.0 },
+  { name: "Spain", south: 36.0, west: -9.3, north: 43.8, east: 3.3 },
+  { name: "Italy", south: 36.6, west: 6.6, north: 47.1, east: 18.5 },
+  { name: "Egypt", south: 22.0, west: 24.7, north: 31.7, east: 36.9 },
+  { name: "Nigeria", south: 4.3, west: 2.7, north: 13.9, east: 14.7 },
+  { name: "Kenya", south: -4.7, west: 33.9, north: 5.0, east: 41.9 },
+  { name: "South Africa", south: -34.8, west: 16.5, north: -22.1, east: 32.9 },
+  { name: "United States", south: 24.5, west: -124.8, north: 49.4, east: -66.9 },
+  { name: "Canada", south: 41.7, west: -141.0, north: 83.1, east: -52.6 },
+  { name: "Mexico", south: 14.5, west: -118.4, north: 32.7, east: -86.7 },
+  { name: "Brazil", south: -33.8, west: -74.0, north: 5.3, east: -34.8 },
+];
@@ -0,0 +1,112 @@
+/**
+ * Durable queue of pushes that could not be sent while the cloud link was down.
+ * Stored as JSON in the plugin state dir and re-read on every operation, so the
+ * CLI (separate process) and the Gateway service see the same queue.
+ */
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { DEFAULT_ACCOUNT_ID } from "./config.js";
+import type { PushFrame } from "./types.js";
+
+export const PUSH_QUEUE_FILE = "push-queue.json";
+
+/** Queue file name for an account; the default account keeps the original name. */
+export function pushQueueFileFor(accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? PUSH_QUEUE_FILE : `push-queue.${accountId}.json`;
+}
+
+export type QueuedPush = {
+  frame: PushFrame;
+  queuedAt: number;
+  expiresAt: number;
+  /** Held for quiet hours / do-not-disturb until about this time (rechecked when draining). */
+  holdUntil?: number;
+  /** Goes out even during quiet hours. */
+  urgent?: boolean;
+};
+
+/** What to do with a queued item when draining; "hold" keeps it in place and moves on to the next. */
+export type DrainDecision = "sent" | "keep" | "drop" | "hold";
+
+export function createPushQueue(filePath: string) {
+  function load(): QueuedPush[] {
+    try {
+      const data = JSON.parse(readFileSync(filePath, "utf-8")) as unknown;
+      return Array.isArray(data) ? (data as QueuedPush[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  function save(items: QueuedPush[]): void {
+    mkdirSync(dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(items, null, 2), "utf-8");
+    renameSync(tmp, filePath);
+  }
+
+  function live(now: number): QueuedPush[] {
+    const items = load();
+    const alive = items.filter((item) => item.expiresAt > now);
+    if (alive.length !== items.length) save(alive);
+    return alive;
+  }
+
+  return {
+    enqueue(
+      frame: PushFrame,
+      ttlMs: number,
+      now = Date.now(),
+      opts: { holdUntil?: number; urgent?: boolean } = {}
+    ): QueuedPush {
+      // A held push keeps its full TTL from the moment it may go out
+      const item: QueuedPush = { frame, queuedAt: now, expiresAt: Math.max(now, opts.holdUntil ?? 0) + ttlMs };
+      if (opts.holdUntil) item.holdUntil = opts.holdUntil;
+      if (opts.urgent) item.urgent = true;
+      save([...live(now), item]);
+      return item;
+    },
+
+    /** Pending, unexpired pushes in queue order. Expired items are pruned. */
+    list(imei?: string, now = Date.now()): QueuedPush[] {
+      const items = live(now);
+      return imei ? items.filter((item) => item.frame.imei === imei) : items;
+    },
+
+    size(now = Date.now()): number {
+      return live(now).length;
+    },
+
+    /**
+     * Hand each item to `handle` in order. "keep" stops the drain and keeps that
+     * item and everything after it; "hold" keeps the item (changes `handle` made to it
+     * are saved) and continues; "drop" discards the item and continues.
+     */
+    drain(handle: (item: QueuedPush) => DrainDecision, now = Date.now()): { sent: number; dropped: number; held: number } {
+      const items = live(now);
+      const held: QueuedPush[] = [];
+      let sent = 0;
+      let dropped = 0;
+      let i = 0;
+      for (; i < items.length; i++) {
+        const decision = handle(items[i]!);
+        if (decision === "keep") break;
+        if (decision === "hold") held.push(items[i]!);
+        else if (decision === "sent") sent++;
+        else dropped++;
+      }
+      if (i > 0) save([...held, ...items.slice(i)]);
+      return { sent, dropped, held: held.length };
+    },
+
+    /** Remove queued pushes (all, or only for one IMEI). Returns how many were removed. */
+    purge(imei?: string, now = Date.now()): number {
+      const items = live(now);
+      const kept = imei ? items.filter((item) => item.frame.imei !== imei) : [];
+      save(kept);
+      return items.length - kept.length;
+    },
+  };
+}
+
+export type PushQueue = ReturnType<typeof createPushQueue>;
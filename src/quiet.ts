@@ -0,0 +1,152 @@
+/**
+ * Quiet hours and do-not-disturb for proactive pushes. Quiet hours are recurring windows
+ * in the wearer's time zone; do-not-disturb is a temporary toggle kept in the plugin
+ * state dir (re-read on every check) so the CLI, agent tools and watch commands share it.
+ */
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { QuietHours, Weekday } from "./types.js";
+
+export const DND_FILE = "dnd.json";
+/** Do-not-disturb length when none is given. */
+export const DEFAULT_DND_MIN = 60;
+
+export const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MINUTE_MS = 60 * 1000;
+const DAY_MIN = 24 * 60;
+
+/** "22:30" → minutes after midnight, or null. */
+export function parseClock(raw: unknown): number | null {
+  if (typeof raw !== "string") return null;
+  const m = raw.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  return h < 24 && min < 60 ? h * 60 + min : null;
+}
+
+/** Parse quiet-hour windows; entries with a bad start or end are skipped. */
+export function parseQuietHours(raw: unknown): QuietHours[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const out: QuietHours[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    if (parseClock(o.start) == null || parseClock(o.end) == null) continue;
+    const days = Array.isArray(o.days)
+      ? o.days.filter((d): d is Weekday => WEEKDAYS.includes(d as Weekday))
+      : undefined;
+    out.push({ start: o.start as string, end: o.end as string, days: days?.length ? days : undefined });
+  }
+  return out;
+}
+
+/** Local weekday index (0 = Sunday) and minute of the day at `t`. */
+function localClock(t: number, timeZone?: string): { day: number; minute: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(t);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: WEEKDAYS.indexOf(get("weekday").toLowerCase().slice(0, 3) as Weekday),
+    minute: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/**
+ * End of the quiet window `t` falls in, or null when it is in none. `days` are the days a
+ * window starts on, so "22:00–07:00 on fri" covers Friday night into Saturday morning.
+ */
+function windowEnd(windows: QuietHours[], t: number, timeZone?: string): number | null {
+  const { day, minute } = localClock(t, timeZone);
+  const startsOn = (w: QuietHours, d: number) => !w.days || w.days.includes(WEEKDAYS[(d + 7) % 7]!);
+  let end: number | null = null;
+  for (const w of windows) {
+    const start = parseClock(w.start)!;
+    const stop = parseClock(w.end)!;
+    let inside: boolean;
+    if (start < stop) inside = minute >= start && minute < stop && startsOn(w, day);
+    else if (start > stop) inside = (minute >= start && startsOn(w, day)) || (minute < stop && startsOn(w, day - 1));
+    else inside = startsOn(w, day); // start === end: the whole day
+    if (!inside) continue;
+    const minutesLeft = start === stop ? DAY_MIN - minute : (stop - minute + DAY_MIN) % DAY_MIN;
+    const at = Math.floor(t / MINUTE_MS) * MINUTE_MS + minutesLeft * MINUTE_MS;
+    end = Math.max(end ?? 0, at);
+  }
+  return end;
+}
+
+/**
+ * When pushes may go out again: the later of the do-not-disturb end and the end of the
+ * quiet window(s) covering that time, or null when the watch is not quiet at `now`.
+ */
+export function quietUntil(
+  opts: { windows?: QuietHours[]; dndUntil?: number | null; timeZone?: string },
+  now = Date.now()
+): number | null {
+  let t = now;
+  // Windows can chain (DND into quiet hours, or overlapping windows); a week bounds it
+  for (let i = 0; i < 14; i++) {
+    const next = Math.max(opts.dndUntil ?? 0, windowEnd(opts.windows ?? [], t, opts.timeZone) ?? 0);
+    if (next <= t) break;
+    t = next;
+  }
+  return t > now ? t : null;
+}
+
+/** "90m", "2h", "1d" → milliseconds, or null. */
+export function parseDuration(raw: string): number | null {
+  const m = raw.trim().match(/^(\d+(?:\.\d+)?)\s*(m|min|h|d)$/i);
+  if (!m) return null;
+  const unit = m[2]!.toLowerCase();
+  const mult = unit === "d" ? 24 * 60 : unit === "h" ? 60 : 1;
+  return Number(m[1]) * mult * MINUTE_MS;
+}
+
+/** Do-not-disturb end time per IMEI. */
+export function createDndStore(filePath: string) {
+  function load(): Record<string, number> {
+    try {
+      const data = JSON.parse(readFileSync(filePath, "utf-8")) as unknown;
+      return data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, number>) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  function save(data: Record<string, number>): void {
+    mkdirSync(dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8");
+    renameSync(tmp, filePath);
+  }
+
+  return {
+    /** When do-not-disturb ends for the watch, or null when it is off. */
+    get(imei: string, now = Date.now()): number | null {
+      const until = load()[imei];
+      return typeof until === "number" && until > now ? until : null;
+    },
+
+    set(imei: string, until: number): void {
+      const data = load();
+      data[imei] = until;
+      save(data);
+    },
+
+    /** Turn do-not-disturb off; returns whether it was on. */
+    clear(imei: string, now = Date.now()): boolean {
+      const data = load();
+      const wasOn = typeof data[imei] === "number" && data[imei]! > now;
+      delete data[imei];
+      save(data);
+      return wasOn;
+    },
+  };
+}
+
+export type DndStore = ReturnType<typeof createDndStore>;
@@ -1,72 +1,605 @@
 import type { ClawatchConfig } from "./types.js";
-import { resolveConfig, getSessionKey } from "./config.js";
-import { ClawatchConnector } from "./connector.js";
-import type { WatchInfo } from "./types.js";
+import { join } from "path";
+import { resolveConfig, resolveWatchProfile, resolveStateDir, switchableAgentIds, DEFAULT_ACCOUNT_ID } from "./config.js";
+import { ClawatchConnector, AuthRejectedError } from "./connector.js";
+import { createSentenceChunker, splitSpokenReply } from "./chunker.js";
+import { createSpeechNormalizer, normalizeForSpeech } from "./speech.js";
+import { createDndStore, quietUntil, DEFAULT_DND_MIN, DND_FILE } from "./quiet.js";
+import { formatLocalTime, isStaleReading } from "./context.js";
+import { createPushQueue, pushQueueFileFor } from "./push-queue.js";
+import { createSensorStore, SENSOR_DIR } from "./sensors.js";
+import { createAlertEngine, renderTemplate } from "./alerts.js";
+import { createGeofenceTracker } from "./geofence.js";
+import { createDefaultGeocoder, formatGeocodeResult } from "./geocode.js";
+import { createTranscriptStore, TRANSCRIPT_DIR } from "./transcript.js";
+import { createTurnCache, type TurnRecord } from "./turn-cache.js";
+import { GatewayError } from "./gateway.js";
+import { spokenPhrase } from "./locale.js";
+import { findAgent, matchCommand, isStopRequest, isMoreRequest, toolResultText, type WatchCommand } from "./commands.js";
+import { createSessionStore, sessionKeyFor, sessionKeyOptions, SESSIONS_FILE } from "./sessions.js";
+import type { TranscriptEntry } from "./transcript.js";
+import type { WatchInfo, ControlAckFrame, PushFrame, PushResult, WatchEvent } from "./types.js";
 
 import type { MessageContext } from "./types.js";
 
+/** One inbound watch message handed to the plugin for an agent turn. */
+export type InboundTurn = {
+  msgId: string;
+  imei: string;
+  text: string;
+  sessionKey: string;
+  context?: MessageContext;
+  /** Geofence the watch is currently inside, if any. */
+  placeName?: string;
+  /** Reverse-geocoded place near the watch, when not inside a geofence. */
+  locationName?: string;
+  /** Streamed content deltas; only passed when streamReplies is enabled. */
+  onDelta?: (delta: string) => void;
+  /** Aborted when the turn is cancelled ("stop") or superseded by a newer message. */
+  signal: AbortSignal;
+  /** Agent picked on the watch with a switch command; overrides the profile's agent. */
+  agentId?: string;
+};
+
+/** A config command rule's tool call, for the plugin to run through the Gateway. */
+export type ToolCommandCall = {
+  imei: string;
+  sessionKey: string;
+  tool: string;
+  args?: Record<string, unknown>;
+};
+
+/** Settle with `promise`, or reject as soon as the turn is aborted (the callback may ignore the signal). */
+function untilAborted<T>(signal: AbortSignal, promise: Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error("Turn cancelled"));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 export type RuntimeCallbacks = {
-  onInboundMessage: (
-    msgId: string,
-    imei: string,
-    text: string,
-    sessionKey: string,
-    context?: MessageContext
-  ) => Promise<string>;
+  onInboundMessage: (turn: InboundTurn) => Promise<string>;
+  /** Alerts and other watch events whose actions the plugin should run. */
+  onWatchEvent?: (event: WatchEvent) => void;
+  /** Run a command rule's tool; resolves with the tool result. */
+  onToolCommand?: (call: ToolCommandCall) => Promise<unknown>;
+  /** The cloud rejected `token`; the runtime stops reconnecting until updateToken(). */
+  onTokenRejected?: (message: string, token: string) => void;
   logger: { info: (msg: string, ...args: unknown[]) => void; error: (msg: string, ...args: unknown[]) => void };
 };
 
+/**
+ * One connection to the Clawatch cloud. `config.apiUrl` / `config.apiToken` are the
+ * account's own; the service creates one runtime per configured account.
+ */
 export function createClawatchRuntime(
   config: ClawatchConfig,
-  callbacks: RuntimeCallbacks
+  callbacks: RuntimeCallbacks,
+  accountId: string = DEFAULT_ACCOUNT_ID
 ) {
   let connector: ClawatchConnector | null = null;
   let pairedWatches: WatchInfo[] = [];
   let disconnecting = false;
+  let apiToken = config.apiToken;
+  // Why the cloud refused the token; set until a new one is given, and no reconnects meanwhile
+  let tokenRejected: string | null = null;
+  // Frames dropped by validation, across reconnects
+  let invalidFrameCount = 0;
   // Map sessionKey -> IMEI for tool execution context
   const sessionKeyToImei = new Map<string, string>();
+  // Control commands awaiting control_ack, keyed by frame id
+  const pendingControls = new Map<
+    string,
+    {
+      action: string;
+      resolve: (ack: ControlAckFrame) => void;
+      reject: (err: Error) => void;
+      timer: ReturnType<typeof setTimeout>;
+    }
+  >();
+  // Pushes awaiting push_ack, keyed by frame id; `resend` sends again (or queues when the link is down)
+  const pendingPushes = new Map<
+    string,
+    {
+      resend: () => void;
+      resolve: () => void;
+      reject: (err: Error) => void;
+      timer: ReturnType<typeof setTimeout>;
+    }
+  >();
 
   const wsUrl = config.apiUrl.replace(/^http/, "ws");
+  const pushQueue = createPushQueue(join(resolveStateDir(), pushQueueFileFor(accountId)));
+  const sensorStore = config.sensorHistoryEnabled
+    ? createSensorStore(join(resolveStateDir(), SENSOR_DIR), { retentionDays: config.sensorRetentionDays })
+    : null;
+  const transcript = config.transcriptEnabled
+    ? createTranscriptStore(join(resolveStateDir(), TRANSCRIPT_DIR), { retentionDays: config.transcriptRetentionDays })
+    : null;
+  // Per-IMEI turn lane: turns run one at a time in arrival order; `turns` holds running and queued ones
+  const lanes = new Map<string, { tail: Promise<void>; turns: Map<string, AbortController> }>();
+  const sessionStore = createSessionStore(join(resolveStateDir(), SESSIONS_FILE));
+  const dndStore = createDndStore(join(resolveStateDir(), DND_FILE));
+  // Rechecks held pushes; DND may also be turned off from the CLI, which cannot reach this process
+  let releaseTimer: ReturnType<typeof setTimeout> | null = null;
+  // Per-watch state for commands: agent picked on the watch, last spoken reply, last sensor snapshot.
+  // The agent pick is deliberately not saved: after a restart the watch is back on its profile's agent.
+  const agentOverrides = new Map<string, string>();
+  const lastReplies = new Map<string, string>();
+  const lastContexts = new Map<string, MessageContext>();
+  // Parts of a long reply or push past the watch's budget, waiting for "more"
+  const pendingParts = new Map<string, string[]>();
+  const turnCache = createTurnCache((config.dedupeTtlSec ?? 600) * 1000);
+  const alertEngine = createAlertEngine(config.alerts ?? [], { maxAgeMin: config.contextMaxAgeMin });
+  const geofenceTracker = createGeofenceTracker(config.geofences ?? []);
+  const geocoder = createDefaultGeocoder(config, (msg) => callbacks.logger.error(msg));
+
+  /** Place name near the location; never fails the turn. */
+  async function describeLocation(context?: MessageContext): Promise<string | undefined> {
+    if (!geocoder || !context?.location) return undefined;
+    try {
+      const result = await geocoder.reverse(context.location.lat, context.location.lng);
+      return result ? formatGeocodeResult(result) : undefined;
+    } catch (err) {
+      callbacks.logger.error(`Clawatch reverse geocode failed: ${String(err)}`);
+      return undefined;
+    }
+  }
+
+  /** Append to the watch's transcript; a failed write never fails the turn. */
+  function record(entry: Omit<TranscriptEntry, "t">): void {
+    if (!transcript) return;
+    try {
+      transcript.append({ t: Date.now(), ...entry });
+    } catch (err) {
+      callbacks.logger.error(`Clawatch transcript write failed: ${String(err)}`);
+    }
+  }
+
+  /** When the watch's quiet hours or do-not-disturb end, or null when pushes may go out now. */
+  function watchQuietUntil(imei: string, now = Date.now()): number | null {
+    const { quietHours, timeZone } = resolveWatchProfile(config, imei);
+    return quietUntil({ windows: quietHours, dndUntil: dndStore.get(imei, now), timeZone }, now);
+  }
+
+  /**
+   * Send a push. Only when config.pushAckTimeoutMs is set (a cloud that sends push_ack)
+   * does it wait for the receipt, resending on timeout up to opts.retries times; otherwise
+   * a push written to the socket counts as sent. When the link is down at a (re)send the
+   * push goes back in the queue ("queued"), or fails when opts.queue is false.
+   */
+  function deliverPush(
+    frame: PushFrame,
+    opts: { queue: boolean; retries: number; urgent?: boolean; interim?: boolean }
+  ): Promise<"delivered" | "sent" | "queued"> {
+    // Interim status must not hold up the turn waiting for a receipt
+    const timeoutMs = opts.interim ? 0 : config.pushAckTimeoutMs;
+    return new Promise((resolve, reject) => {
+      let attempts = 0;
+      const resend = () => {
+        const pending = pendingPushes.get(frame.id);
+        if (pending) clearTimeout(pending.timer);
+        pendingPushes.delete(frame.id);
+        if (!connector?.isConnected()) {
+          if (!opts.queue) {
+            reject(new Error("Clawatch not connected"));
+            return;
+          }
+          pushQueue.enqueue(frame, (config.pushQueueTtlSec ?? 86400) * 1000, Date.now(), { urgent: opts.urgent });
+          callbacks.logger.info(`Clawatch link down before push ${frame.id} was acknowledged, queued`);
+          resolve("queued");
+          return;
+        }
+        connector.send(opts.interim ? frame : { ...frame, text: spokenPushText(frame) });
+        if (!timeoutMs) {
+          resolve("sent");
+          return;
+        }
+        attempts++;
+        const timer = setTimeout(() => {
+          if (attempts <= opts.retries) {
+            callbacks.logger.info(`Clawatch no push_ack for ${frame.id}, resending (attempt ${attempts + 1})`);
+            resend();
+            return;
+          }
+          pendingPushes.delete(frame.id);
+          reject(new Error(`No delivery receipt for push ${frame.id} (timed out after ${attempts} attempts)`));
+        }, timeoutMs);
+        pendingPushes.set(frame.id, { resend, resolve: () => resolve("delivered"), reject, timer });
+      };
+      resend();
+    });
+  }
+
+  /**
+   * First part of a push within the watch's budget. Split only when the push goes out, so
+   * a queued or held push keeps its whole text and "more" only offers what was heard.
+   */
+  function spokenPushText(frame: PushFrame): string {
+    const { locale, replyCharBudget } = resolveWatchProfile(config, frame.imei);
+    return holdRest(frame.imei, splitSpokenReply(frame.text, replyCharBudget), locale);
+  }
+
+  /** Pushes still waiting for a receipt when the link goes away: queue them (or fail them). */
+  function requeuePendingPushes(): void {
+    for (const pending of [...pendingPushes.values()]) pending.resend();
+  }
+
+  function flushPushQueue(): void {
+    const { sent, dropped } = pushQueue.drain((item) => {
+      if (!connector?.isConnected()) return "keep";
+      if (!pairedWatches.some((w) => w.imei === item.frame.imei)) {
+        callbacks.logger.info(`Clawatch dropping queued push ${item.frame.id}: IMEI ${item.frame.imei} not paired`);
+        return "drop";
+      }
+      const until = item.urgent ? null : watchQuietUntil(item.frame.imei);
+      if (until) {
+        item.holdUntil = until;
+        return "hold";
+      }
+      const { frame, urgent } = item;
+      deliverPush(frame, { queue: true, retries: config.pushRetries ?? 2, urgent })
+        .then((status) => {
+          if (status !== "queued") record({ kind: "push", imei: frame.imei, id: frame.id, text: frame.text, status });
+        })
+        .catch((err) => {
+          callbacks.logger.error(`Clawatch queued push ${frame.id} failed: ${String(err)}`);
+          record({ kind: "push", imei: frame.imei, id: frame.id, text: frame.text, status: "failed" });
+        });
+      return "sent";
+    });
+    if (sent > 0 || dropped > 0) {
+      callbacks.logger.info(`Clawatch push queue flushed: sent=${sent} dropped=${dropped} remaining=${pushQueue.size()}`);
+    }
+    scheduleRelease();
+  }
+
+  /** Flush again when the earliest held push is due, and at least every minute while any are held. */
+  function scheduleRelease(): void {
+    if (releaseTimer) clearTimeout(releaseTimer);
+    releaseTimer = null;
+    const due = pushQueue
+      .list()
+      .map((item) => item.holdUntil)
+      .filter((t): t is number => t != null);
+    if (due.length === 0 || !connector) return;
+    const wait = Math.min(Math.max(Math.min(...due) - Date.now(), 1000), 60 * 1000);
+    releaseTimer = setTimeout(() => {
+      releaseTimer = null;
+      flushPushQueue();
+    }, wait);
+  }
+
+  function laneFor(imei: string) {
+    let lane = lanes.get(imei);
+    if (!lane) {
+      lane = { tail: Promise.resolve(), turns: new Map() };
+      lanes.set(imei, lane);
+    }
+    return lane;
+  }
+
+  /** Forget a watch's lane once nothing is running or queued on it. */
+  function releaseLane(imei: string, lane: ReturnType<typeof laneFor>, tail: Promise<void>): void {
+    if (lane.turns.size === 0 && lane.tail === tail && lanes.get(imei) === lane) lanes.delete(imei);
+  }
+
+  /** Abort a watch's running and queued turns and tell the cloud each reply was cancelled. */
+  function cancelTurns(imei: string, reason: string): void {
+    for (const [id, controller] of lanes.get(imei)?.turns ?? []) {
+      if (controller.signal.aborted) continue;
+      controller.abort();
+      turnCache.fail(id, reason, "cancelled");
+      callbacks.logger.info(`Clawatch turn cancelled: id=${id} imei=${imei} (${reason})`);
+      record({ kind: "error", imei, id, text: reason, code: "cancelled" });
+      connector?.send({ type: "error", id, message: reason, code: "cancelled" });
+    }
+  }
+
+  /** Session key of the watch's current conversation. */
+  function currentSessionKey(imei: string): string {
+    return sessionKeyFor(imei, sessionStore.get(imei), sessionKeyOptions(config, imei));
+  }
+
+  /** Finish a message with its final reply frame; `frameText` is what is left to send after streaming. */
+  function sendFinalReply(id: string, imei: string, text: string, receivedAt: number, frameText = text): void {
+    turnCache.complete(id, text);
+    lastReplies.set(imei, text);
+    callbacks.logger.info(`Clawatch sending reply: id=${id} imei=${imei} text=${text.slice(0, 50)}`);
+    record({ kind: "reply", imei, id, text, latencyMs: Date.now() - receivedAt });
+    connector?.send({
+      type: "reply",
+      id,
+      text: frameText,
+      done: true,
+    });
+  }
+
+  /** Log a failed turn or command and answer with a short spoken apology, never the internal error text. */
+  function sendFallbackReply(id: string, imei: string, err: unknown, receivedAt: number, locale?: string): void {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    const errStack = err instanceof Error ? err.stack : undefined;
+    callbacks.logger.error(`Clawatch message error: ${errMsg}`, errStack ? { stack: errStack } : undefined);
+    record({ kind: "error", imei, id, text: errMsg, code: "agent_error", latencyMs: Date.now() - receivedAt });
+    const unreachable = err instanceof GatewayError && err.transient;
+    sendFinalReply(id, imei, spokenPhrase(unreachable ? "unreachable" : "failed", locale), receivedAt);
+  }
+
+  /** Battery and steps from the latest snapshot, spoken. */
+  function statusReadout(imei: string, locale?: string): string {
+    const ctx = lastContexts.get(imei);
+    const parts: string[] = [];
+    if (ctx?.battery) parts.push(spokenPhrase("battery", locale, { value: ctx.battery.value }));
+    if (ctx?.steps) parts.push(spokenPhrase("steps", locale, { value: ctx.steps.value }));
+    return parts.length > 0 ? parts.join(" ") : spokenPhrase("noReadings", locale);
+  }
+
+  /**
+   * Text to speak now from reply parts: the first part, with a "say more" hint when the
+   * rest is kept for the next "more".
+   */
+  function holdRest(imei: string, parts: string[], locale?: string): string {
+    const [first = "", ...rest] = parts;
+    if (rest.length === 0) return first;
+    pendingParts.set(imei, rest);
+    return [first, spokenPhrase("moreAvailable", locale)].filter(Boolean).join(" ");
+  }
+
+  /** Handle a watch command locally (no agent turn) and answer with a normal reply frame. */
+  function runCommand(
+    command: WatchCommand,
+    msg: { id: string; imei: string; sessionKey: string; receivedAt: number; locale?: string }
+  ): void {
+    const { id, imei, locale, receivedAt } = msg;
+    callbacks.logger.info(`Clawatch command ${command.type}: id=${id} imei=${imei}`);
+    let reply: string | Promise<string>;
+    switch (command.type) {
+      case "stop":
+        cancelTurns(imei, "Cancelled by the user");
+        reply = spokenPhrase("stopped", locale);
+        break;
+      case "new_conversation":
+        cancelTurns(imei, "New conversation started");
+        sessionStore.reset(imei);
+        pendingParts.delete(imei);
+        reply = spokenPhrase("newConversation", locale);
+        break;
+      case "status":
+        reply = statusReadout(imei, locale);
+        break;
+      case "repeat":
+        reply = lastReplies.get(imei) ?? spokenPhrase("nothingToRepeat", locale);
+        break;
+      case "dnd": {
+        if (command.on) {
+          const until = Date.now() + DEFAULT_DND_MIN * 60 * 1000;
+          dndStore.set(imei, until);
+          const { timeZone } = resolveWatchProfile(config, imei);
+          reply = spokenPhrase("dndOn", locale, { time: formatLocalTime(until, Date.now(), timeZone) });
+        } else {
+          dndStore.clear(imei);
+          reply = spokenPhrase("dndOff", locale);
+          flushPushQueue();
+        }
+        break;
+      }
+      case "more": {
+        const parts = pendingParts.get(imei);
+        pendingParts.delete(imei);
+        reply = parts ? holdRest(imei, parts, locale) : spokenPhrase("nothingMore", locale);
+        break;
+      }
+      case "switch_agent": {
+        const profileAgent = resolveWatchProfile(config, imei).agentId;
+        const agentIds = switchableAgentIds(config);
+        // A misheard name would send every later turn to an agent the Gateway does not have
+        const agent = command.agentId ? findAgent(command.agentId, agentIds) : profileAgent;
+        if (!agent) {
+          reply = spokenPhrase("agentUnknown", locale, { agent: command.agentId!, agents: agentIds.join(", ") });
+          break;
+        }
+        if (agent === profileAgent) agentOverrides.delete(imei);
+        else agentOverrides.set(imei, agent);
+        reply = spokenPhrase("agentSwitched", locale, { agent });
+        break;
+      }
+      case "tool": {
+        const { rule } = command;
+        reply = callbacks.onToolCommand
+          ? callbacks
+              .onToolCommand({ imei, sessionKey: msg.sessionKey, tool: rule.tool, args: rule.args })
+              .then((result) => {
+                const text = toolResultText(result);
+                if (rule.reply) return rule.reply;
+                const spoken = text && normalizeForSpeech(text, config.speech, locale);
+                if (!spoken) return spokenPhrase("done", locale);
+                return holdRest(imei, splitSpokenReply(spoken, resolveWatchProfile(config, imei).replyCharBudget), locale);
+              })
+          : Promise.reject(new Error(`No tool runner for command tool ${rule.tool}`));
+        break;
+      }
+    }
+    // Local commands answer at once, so a following "repeat" sees their reply
+    if (typeof reply === "string") {
+      sendFinalReply(id, imei, reply, receivedAt);
+      return;
+    }
+    reply
+      .then((text) => sendFinalReply(id, imei, text, receivedAt))
+      .catch((err) => sendFallbackReply(id, imei, err, receivedAt, locale));
+  }
+
+  /** A message id seen before: attach to the running turn or repeat how it ended. */
+  function handleDuplicateMessage(id: string, imei: string, previous: TurnRecord): void {
+    callbacks.logger.info(`Clawatch duplicate message: id=${id} imei=${imei} turn=${previous.status}`);
+    if (previous.status === "running") {
+      // The running turn answers this id when it finishes
+      turnCache.markRedelivered(id);
+    } else if (previous.status === "done") {
+      connector?.send({ type: "reply", id, text: previous.reply, done: true });
+    } else {
+      connector?.send({ type: "error", id, message: previous.error, code: previous.code });
+    }
+  }
 
   function handleInboundMessage(
     id: string,
     imei: string,
     text: string,
-    _timestamp?: number,
-    _isCommand?: boolean,
+    timestamp?: number,
+    isCommand?: boolean,
     context?: MessageContext
   ): void {
+    const previous = turnCache.get(id);
+    if (previous) {
+      handleDuplicateMessage(id, imei, previous);
+      return;
+    }
+    turnCache.start(id);
+    const receivedAt = Date.now();
     callbacks.logger.info(`Clawatch inbound: imei=${imei} text=${text.slice(0, 50)}`);
-    const sessionKey = getSessionKey(
-      config.sessionKeyPrefix ?? "watch:",
-      imei
-    );
-    // Store sessionKey -> IMEI mapping for tool context
-    sessionKeyToImei.set(sessionKey, imei);
-    // Also store alternative formats that Gateway might use
-    sessionKeyToImei.set(`session:${sessionKey}`, imei);
-    callbacks
-      .onInboundMessage(id, imei, text, sessionKey, context)
-      .then((replyText) => {
-        callbacks.logger.info(`Clawatch sending reply: id=${id} imei=${imei} text=${replyText.slice(0, 50)}`);
-        connector?.send({
-          type: "reply",
-          id,
-          text: replyText,
-          done: true,
+    record({ kind: "inbound", imei, id, text, context, watchTimestamp: timestamp });
+    if (context) lastContexts.set(imei, context);
+    if (context && sensorStore) {
+      try {
+        sensorStore.record(imei, context);
+      } catch (err) {
+        callbacks.logger.error(`Clawatch sensor history write failed: ${String(err)}`);
+      }
+    }
+    if (context) {
+      const label = pairedWatches.find((w) => w.imei === imei)?.label;
+      for (const alert of alertEngine.evaluate(imei, context)) {
+        callbacks.logger.info(`Clawatch alert ${alert.rule.id}: imei=${imei} ${alert.rule.metric}=${alert.value}`);
+        callbacks.onWatchEvent?.({
+          kind: "alert",
+          imei,
+          message: alert.message,
+          vars: { value: alert.value, threshold: alert.threshold, imei, label: label ?? imei },
+          actions: alert.actions,
         });
-      })
-      .catch((err) => {
-        const errMsg = err instanceof Error ? err.message : String(err);
-        const errStack = err instanceof Error ? err.stack : undefined;
-        callbacks.logger.error(`Clawatch message error: ${errMsg}`, errStack ? { stack: errStack } : undefined);
-        connector?.send({
-          type: "error",
-          id,
-          message: errMsg,
-          code: "agent_error",
+      }
+    }
+    // An old cached fix (e.g. resent after a reconnect) must not fire leave/enter actions
+    if (context?.location && !isStaleReading("location", context.location.received_at, Date.now(), config.contextMaxAgeMin)) {
+      const label = pairedWatches.find((w) => w.imei === imei)?.label ?? imei;
+      const { lat, lng } = context.location;
+      for (const t of geofenceTracker.update(imei, lat, lng)) {
+        callbacks.logger.info(`Clawatch geofence ${t.event}: imei=${imei} place=${t.fence.name}`);
+        const vars = { place: t.fence.name, event: t.event, imei, label, lat, lng };
+        const actions = (t.event === "enter" ? t.fence.onEnter : t.fence.onLeave) ?? [];
+        if (actions.length === 0) continue;
+        callbacks.onWatchEvent?.({
+          kind: "geofence",
+          imei,
+          message: renderTemplate(t.event === "enter" ? "{label} arrived at {place}." : "{label} left {place}.", vars),
+          vars,
+          actions,
         });
+      }
+    }
+    // The idle strategy needs the time of every message; it may start a new conversation here
+    const sessionOpts = sessionKeyOptions(config, imei);
+    if (sessionOpts.idleMs) sessionStore.touch(imei, receivedAt, sessionOpts.idleMs);
+    const sessionKey = currentSessionKey(imei);
+    // Store sessionKey -> IMEI mapping for tool context, and the alternative format the Gateway
+    // might use. A shared key also carries other channels' runs, so it must not resolve to this watch.
+    if (sessionOpts.strategy !== "shared") {
+      sessionKeyToImei.set(sessionKey, imei);
+      sessionKeyToImei.set(`session:${sessionKey}`, imei);
+    }
+    const placeName = context?.location ? geofenceTracker.currentPlace(imei) : undefined;
+    const { locale, replyCharBudget: budget } = resolveWatchProfile(config, imei);
+    // Commands from the watch skip the agent, as do a plain spoken "stop" while a turn is
+    // running and "more" while the rest of a long reply is waiting
+    let command: WatchCommand | null = null;
+    if (isCommand) command = matchCommand(text, config.commands);
+    else if (lanes.has(imei) && isStopRequest(text)) command = { type: "stop" };
+    else if (pendingParts.has(imei) && isMoreRequest(text)) command = { type: "more" };
+    if (command) {
+      runCommand(command, { id, imei, sessionKey, receivedAt, locale });
+      return;
+    }
+    // A new question drops whatever was left of the previous answer
+    pendingParts.delete(imei);
+    const lane = laneFor(imei);
+    if (config.turnPolicy === "supersede") {
+      cancelTurns(imei, "Superseded by a newer message");
+    }
+    const controller = new AbortController();
+    const { signal } = controller;
+    lane.turns.set(id, controller);
+    // One normalizer per turn, so a code block that spans streamed chunks is skipped as a whole
+    const speech = createSpeechNormalizer(config.speech, locale);
+    // Streamed chunks go out until the budget is used; later ones are held for "more"
+    const streamed: string[] = [];
+    const overflow: string[] = [];
+    let streamedChars = 0;
+    // Flush partial replies at sentence/clause boundaries so the watch can start TTS early
+    const chunker = config.streamReplies
+      ? createSentenceChunker(config.streamMinChunkChars, (chunk) => {
+          if (signal.aborted || turnCache.wasRedelivered(id)) return;
+          const spoken = speech.normalize(chunk);
+          if (!spoken) return;
+          if (overflow.length > 0 || streamedChars + spoken.length > budget) {
+            overflow.push(spoken);
+            return;
+          }
+          streamed.push(spoken);
+          streamedChars += spoken.length;
+          connector?.send({ type: "reply", id, text: spoken, done: false });
+        })
+      : null;
+    // Cancelled turns were already answered with a "cancelled" error, so they end silently
+    const tail: Promise<void> = lane.tail
+      .then(() => {
+        if (signal.aborted) return;
+        return (placeName ? Promise.resolve(undefined) : describeLocation(context))
+          .then((locationName) =>
+            untilAborted(
+              signal,
+              callbacks.onInboundMessage({
+                msgId: id,
+                imei,
+                text,
+                sessionKey,
+                context,
+                placeName,
+                locationName,
+                onDelta: chunker?.push,
+                signal,
+                agentId: agentOverrides.get(imei),
+              })
+            )
+          )
+          .then((replyText) => {
+            if (signal.aborted) return;
+            // Partial chunks sent before a redelivery may have gone down with the old socket,
+            // so a redelivered turn finishes with the whole reply
+            const spokenReply = normalizeForSpeech(replyText, config.speech, locale);
+            if (!chunker || turnCache.wasRedelivered(id)) {
+              sendFinalReply(id, imei, holdRest(imei, splitSpokenReply(spokenReply, budget), locale), receivedAt);
+              return;
+            }
+            const leftover = [...overflow, speech.normalize(chunker.flush())].filter(Boolean).join("\n");
+            const parts = splitSpokenReply(leftover, budget, budget - streamedChars);
+            const finalText = holdRest(imei, parts, locale);
+            // Record what the watch actually heard when part of the reply is held back
+            const heard = parts.length > 1 ? [...streamed, finalText].filter(Boolean).join("\n") : spokenReply;
+            sendFinalReply(id, imei, heard, receivedAt, finalText);
+          })
+          .catch((err) => {
+            if (signal.aborted) return;
+            sendFallbackReply(id, imei, err, receivedAt, locale);
+          });
+      })
+      .finally(() => {
+        lane.turns.delete(id);
+        releaseLane(imei, lane, tail);
       });
+    lane.tail = tail;
   }
 
   const connectorCallbacks = {
@@ -78,11 +611,15 @@ export function createClawatchRuntime(
       callbacks.logger.info(
         `Clawatch registered, watches: ${JSON.stringify(pairedWatches)}`
       );
+      flushPushQueue();
     },
     onError: (code: string | undefined, message: string) => {
       callbacks.logger.error(`Clawatch error [${code ?? ""}]: ${message}`);
     },
     onPong: () => {},
+    onInvalidFrame: () => {
+      invalidFrameCount++;
+    },
     onUnbound: (imei: string, reason?: string) => {
       pairedWatches = pairedWatches.filter((w) => w.imei !== imei);
       callbacks.logger.info(
@@ -90,11 +627,54 @@ export function createClawatchRuntime(
       );
     },
     onMessage: handleInboundMessage,
+    onControlAck: (
+      id: string,
+      ok: boolean,
+      result?: Record<string, unknown>,
+      error?: string
+    ) => {
+      const pending = pendingControls.get(id);
+      if (!pending) {
+        callbacks.logger.info(`Clawatch control_ack for unknown id=${id}`);
+        return;
+      }
+      pendingControls.delete(id);
+      clearTimeout(pending.timer);
+      if (ok) {
+        pending.resolve({ type: "control_ack", id, ok, result, error });
+      } else {
+        pending.reject(new Error(error || `Watch rejected ${pending.action}`));
+      }
+    },
+    onPushAck: (id: string, ok: boolean, error?: string) => {
+      const pending = pendingPushes.get(id);
+      if (!pending) {
+        // With receipts off no push is tracked, so every ack is expected to be unknown
+        if (config.pushAckTimeoutMs) callbacks.logger.info(`Clawatch push_ack for unknown id=${id}`);
+        return;
+      }
+      pendingPushes.delete(id);
+      clearTimeout(pending.timer);
+      if (ok) {
+        pending.resolve();
+      } else {
+        pending.reject(new Error(error || "Cloud could not deliver the push"));
+      }
+    },
   };
 
+  function rejectPendingControls(reason: string): void {
+    for (const [id, pending] of pendingControls) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+      pendingControls.delete(id);
+    }
+  }
+
   function attemptReconnect(): void {
-    if (disconnecting) return;
+    if (disconnecting || tokenRejected) return;
     connector = null;
+    requeuePendingPushes();
     callbacks.logger.info("Clawatch: reconnecting after disconnect...");
     doConnect().catch((err) => {
       callbacks.logger.error("Clawatch reconnect failed: %s", String(err));
@@ -111,21 +691,35 @@ export function createClawatchRuntime(
   }
 
   async function doConnect(): Promise<void> {
-    if (!config.apiToken) {
+    if (!apiToken) {
       callbacks.logger.error("Clawatch: no apiToken, login first");
       throw new Error("No apiToken. Run: openclaw clawatch login <countryCode> <phoneNumber>");
     }
-    connector = new ClawatchConnector(
+    const current: ClawatchConnector = new ClawatchConnector(
       wsUrl,
-      config.apiToken,
+      apiToken,
       {
         ...connectorCallbacks,
-        onReconnect: attemptReconnect,
+        // A connector given up on (token rejected, replaced) must not reconnect when it closes
+        onReconnect: () => {
+          if (connector === current) attemptReconnect();
+        },
       }
     );
+    connector = current;
     try {
       await connector.connect();
     } catch (err) {
+      if (err instanceof AuthRejectedError) {
+        // Same token, same answer: stop here instead of retrying forever
+        tokenRejected = err.message;
+        connector?.disconnect();
+        connector = null;
+        requeuePendingPushes();
+        callbacks.logger.error(`Clawatch: API token rejected [${err.code}]: ${err.message}. Run: openclaw clawatch login`);
+        callbacks.onTokenRejected?.(err.message, apiToken);
+        throw err;
+      }
       // If connect() rejects (timeout, error), onclose should fire and trigger onReconnect
       // But if onclose doesn't fire immediately, manually trigger reconnect after a short delay
       callbacks.logger.error("Clawatch connect() rejected: %s", String(err));
@@ -143,6 +737,8 @@ export function createClawatchRuntime(
   }
 
   return {
+    accountId,
+
     async connect(): Promise<void> {
       disconnecting = false;
       await doConnect();
@@ -150,16 +746,45 @@ export function createClawatchRuntime(
 
     disconnect(): void {
       disconnecting = true;
+      if (releaseTimer) clearTimeout(releaseTimer);
+      releaseTimer = null;
       connector?.disconnect();
       connector = null;
+      requeuePendingPushes();
       pairedWatches = [];
       sessionKeyToImei.clear();
+      for (const lane of lanes.values()) {
+        for (const controller of lane.turns.values()) controller.abort();
+      }
+      lanes.clear();
+      rejectPendingControls("Clawatch disconnected");
     },
 
     isConnected(): boolean {
       return connector?.isConnected() ?? false;
     },
 
+    /** Why the cloud rejected the API token, or null when it has not. */
+    getTokenRejected(): string | null {
+      return tokenRejected;
+    },
+
+    /**
+     * Use a new API token (after `login`). In the token-rejected state this connects with
+     * it right away; otherwise it is used from the next reconnect.
+     */
+    async updateToken(token: string): Promise<void> {
+      apiToken = token;
+      if (!tokenRejected) return;
+      tokenRejected = null;
+      await doConnect();
+    },
+
+    /** Locale of the watch's profile, for text the plugin speaks outside a turn. */
+    getWatchLocale(imei: string): string | undefined {
+      return resolveWatchProfile(config, imei).locale;
+    },
+
     getPairedWatches(): WatchInfo[] {
       return [...pairedWatches];
     },
@@ -168,36 +793,152 @@ export function createClawatchRuntime(
       connector?.send({ type: "reply", id, text, done });
     },
 
-    async sendControl(params: {
+    /**
+     * Send a control command and wait for the matching control_ack.
+     * Rejects when not connected, on timeout, or when the watch answers ok: false.
+     */
+    sendControl(params: {
       action: string;
       imei: string;
       params?: Record<string, unknown>;
-    }): Promise<void> {
+    }): Promise<ControlAckFrame> {
+      if (!connector?.isConnected()) {
+        return Promise.reject(new Error("Clawatch not connected"));
+      }
       const id = `ctrl-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-      connector?.send({
+      const timeoutMs = config.controlTimeoutMs ?? 15000;
+      const ack = new Promise<ControlAckFrame>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pendingControls.delete(id);
+          reject(new Error(`No response from watch for ${params.action} (timed out after ${Math.round(timeoutMs / 1000)}s)`));
+        }, timeoutMs);
+        pendingControls.set(id, { action: params.action, resolve, reject, timer });
+      });
+      connector.send({
         type: "control",
         id,
         action: params.action,
         imei: params.imei,
         params: params.params,
       });
+      return ack;
     },
 
-    sendPush(imei: string, text: string): void {
+    /**
+     * Push text to a paired watch and wait for the cloud's delivery receipt (resending on
+     * timeout); rejects when the cloud reports a failure or never acknowledges the push.
+     * While the cloud link is down the push is queued on disk and flushed on the next
+     * registration, unless opts.queue is false.
+     * opts.interim records it in the transcript as an interim message of the current turn.
+     * During the watch's quiet hours or do-not-disturb the push is held in the same queue
+     * until they end, unless it is interim or opts.urgent is set; with opts.queue false it
+     * rejects instead.
+     */
+    async sendPush(
+      imei: string,
+      text: string,
+      opts: { queue?: boolean; interim?: boolean; urgent?: boolean } = {}
+    ): Promise<PushResult> {
+      const id = `push-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+      // Pushes are spoken too; keep the original if nothing speakable is left (e.g. only emoji)
+      const { locale } = resolveWatchProfile(config, imei);
+      text = normalizeForSpeech(text, config.speech, locale) || text;
+      const frame: PushFrame = { type: "push", id, imei, text };
+      // Paired list survives a dropped socket, so it is still authoritative while reconnecting
+      const paired = pairedWatches.some((w) => w.imei === imei);
+      const holdUntil = opts.interim || opts.urgent ? null : watchQuietUntil(imei);
+      if (holdUntil) {
+        if (opts.queue === false) {
+          throw new Error(`Watch ${imei} is in quiet time until ${new Date(holdUntil).toISOString()}, push not queued`);
+        }
+        if (pairedWatches.length > 0 ? !paired : !/^\d{15}$/.test(imei)) {
+          throw new Error(`IMEI ${imei} not paired`);
+        }
+        pushQueue.enqueue(frame, (config.pushQueueTtlSec ?? 86400) * 1000, Date.now(), { holdUntil });
+        callbacks.logger.info(`Clawatch watch ${imei} is quiet, holding push ${id} until ${new Date(holdUntil).toISOString()}`);
+        record({ kind: "push", imei, id, text, status: "held" });
+        scheduleRelease();
+        return { id, status: "held", holdUntil };
+      }
       if (!connector?.isConnected()) {
-        throw new Error("Clawatch not connected");
+        if (opts.queue === false) {
+          throw new Error("Clawatch not connected");
+        }
+        if (pairedWatches.length > 0 ? !paired : !/^\d{15}$/.test(imei)) {
+          throw new Error(`IMEI ${imei} not paired`);
+        }
+        pushQueue.enqueue(frame, (config.pushQueueTtlSec ?? 86400) * 1000, Date.now(), { urgent: opts.urgent });
+        callbacks.logger.info(`Clawatch not connected, queued push ${id} for ${imei}`);
+        record({ kind: opts.interim ? "interim" : "push", imei, id, text, status: "queued" });
+        return { id, status: "queued" };
       }
-      const paired = pairedWatches.some((w) => w.imei === imei);
       if (!paired) {
         throw new Error(`IMEI ${imei} not paired`);
       }
-      const id = `push-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-      connector.send({
-        type: "push",
-        id,
-        imei,
-        text,
-      });
+      const kind = opts.interim ? "interim" : "push";
+      try {
+        // Interim status is only worth saying right now, so it is never resent or queued
+        const status = await deliverPush(frame, {
+          queue: opts.queue !== false && !opts.interim,
+          retries: opts.interim ? 0 : config.pushRetries ?? 2,
+          urgent: opts.urgent,
+          interim: opts.interim,
+        });
+        record({ kind, imei, id, text, status });
+        return { id, status };
+      } catch (err) {
+        record({ kind, imei, id, text, status: "failed" });
+        throw err;
+      }
+    },
+
+    /** Number of frames from the cloud rejected by validation since the runtime started. */
+    getInvalidFrameCount(): number {
+      return invalidFrameCount;
+    },
+
+    /** Number of pushes waiting for the cloud link. */
+    getQueuedPushCount(): number {
+      return pushQueue.size();
+    },
+
+    /** Number of queued pushes held for quiet hours or do-not-disturb. */
+    getHeldPushCount(): number {
+      return pushQueue.list().filter((item) => item.holdUntil != null).length;
+    },
+
+    /** When the watch's quiet hours or do-not-disturb end, or null when it is not quiet. */
+    getQuietUntil(imei: string): number | null {
+      return watchQuietUntil(imei);
+    },
+
+    /** Turn do-not-disturb on until `until`, or off (null), which releases held pushes. */
+    setDnd(imei: string, until: number | null): void {
+      if (until != null) {
+        dndStore.set(imei, until);
+        return;
+      }
+      dndStore.clear(imei);
+      flushPushQueue();
+    },
+
+    currentSessionKey,
+
+    /** Run work on a watch's session after its queued turns, so it never interleaves with a live turn. */
+    runInLane<T>(imei: string, task: () => Promise<T>): Promise<T> {
+      const lane = laneFor(imei);
+      const run = lane.tail.then(task);
+      const tail: Promise<void> = run.then(
+        () => releaseLane(imei, lane, tail),
+        () => releaseLane(imei, lane, tail)
+      );
+      lane.tail = tail;
+      return run;
+    },
+
+    /** Agent picked on the watch with a switch command, if any. */
+    getAgentOverride(imei: string): string | undefined {
+      return agentOverrides.get(imei);
     },
 
     getImeiFromSessionKey(sessionKey: string): string | null {
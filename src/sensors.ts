@@ -0,0 +1,256 @@
+/**
+ * Per-watch time series of MessageContext snapshots, stored as JSONL under the
+ * plugin state dir (one file per IMEI), with min/max/avg and daily aggregates.
+ */
+import { appendFileSync, readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import type { MessageContext } from "./types.js";
+
+export const SENSOR_DIR = "sensors";
+
+export type SensorMetric = "heart_rate" | "oxygen" | "temperature" | "blood_pressure" | "steps" | "battery";
+
+export const SENSOR_METRICS: SensorMetric[] = ["heart_rate", "oxygen", "temperature", "blood_pressure", "steps", "battery"];
+
+export const SENSOR_UNITS: Record<SensorMetric, string> = {
+  heart_rate: "bpm",
+  oxygen: "%",
+  temperature: "°C",
+  blood_pressure: "mmHg",
+  steps: "steps",
+  battery: "%",
+};
+
+/** One stored line: when the snapshot arrived plus the snapshot itself. */
+type StoredSnapshot = { t: number; ctx: MessageContext };
+
+/** A single reading; value2 is the diastolic value for blood pressure. */
+export type SensorReading = { t: number; value: number; value2?: number };
+
+export type SensorStats = { count: number; min: number; max: number; avg: number; last: number };
+
+export type DailySummary = SensorStats & {
+  date: string;
+  /** Diastolic stats, blood pressure only. */
+  secondary?: SensorStats;
+};
+
+export type SensorSummary = {
+  metric: SensorMetric;
+  readings: number;
+  overall: SensorStats | null;
+  secondary: SensorStats | null;
+  days: DailySummary[];
+  /** Steps only: sum of each day's final step count. */
+  totalSteps?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Sensor timestamps may be unix seconds or milliseconds; normalize to ms. */
+export function toMillis(ts: number): number {
+  return ts < 1e12 ? ts * 1000 : ts;
+}
+
+/** Local calendar date (YYYY-MM-DD) of a timestamp, in the given IANA time zone or system time. */
+export function dayKey(t: number, timeZone?: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(t);
+}
+
+/** The last `days` local dates ending at `now` (today first). */
+export function recentDayKeys(days: number, now: number, timeZone?: string): string[] {
+  const keys: string[] = [];
+  // Step by 12h so DST shifts cannot skip a date
+  for (let t = now; keys.length < days; t -= DAY_MS / 2) {
+    const key = dayKey(t, timeZone);
+    if (!keys.includes(key)) keys.push(key);
+  }
+  return keys;
+}
+
+function extract(snapshot: StoredSnapshot, metric: SensorMetric): SensorReading | null {
+  const { ctx, t } = snapshot;
+  const at = (received?: number) => (received != null ? toMillis(received) : t);
+  switch (metric) {
+    case "steps":
+      return ctx.steps ? { t: at(ctx.steps.received_at), value: ctx.steps.value } : null;
+    case "battery":
+      return ctx.battery ? { t: at(ctx.battery.received_at), value: ctx.battery.value } : null;
+    case "blood_pressure": {
+      const bp = ctx.health?.blood_pressure;
+      return bp ? { t: at(bp.received_at), value: bp.systolic, value2: bp.diastolic } : null;
+    }
+    default: {
+      const r = ctx.health?.[metric];
+      return r ? { t: at(r.received_at), value: r.value } : null;
+    }
+  }
+}
+
+function stats(values: number[]): SensorStats | null {
+  if (values.length === 0) return null;
+  const sum = values.reduce((a, b) => a + b, 0);
+  return {
+    count: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    avg: Math.round((sum / values.length) * 10) / 10,
+    last: values[values.length - 1]!,
+  };
+}
+
+export function createSensorStore(dir: string, opts: { retentionDays?: number } = {}) {
+  const retentionMs = (opts.retentionDays ?? 90) * DAY_MS;
+  const lastPrune = new Map<string, number>();
+
+  function fileFor(imei: string): string {
+    return join(dir, `${imei.replace(/[^\w-]/g, "_")}.jsonl`);
+  }
+
+  function load(imei: string): StoredSnapshot[] {
+    const file = fileFor(imei);
+    if (!existsSync(file)) return [];
+    const out: StoredSnapshot[] = [];
+    for (const line of readFileSync(file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        out.push(JSON.parse(line) as StoredSnapshot);
+      } catch {
+        // Skip a torn line (e.g. crash mid-append)
+      }
+    }
+    return out;
+  }
+
+  function prune(imei: string, now: number): void {
+    const cutoff = now - retentionMs;
+    const snapshots = load(imei);
+    const kept = snapshots.filter((s) => s.t >= cutoff);
+    if (kept.length !== snapshots.length) {
+      writeFileSync(fileFor(imei), kept.map((s) => JSON.stringify(s)).join("\n") + (kept.length ? "\n" : ""), "utf-8");
+    }
+    lastPrune.set(imei, now);
+  }
+
+  /**
+   * Readings of one metric in time order. A reading repeated across snapshots
+   * (same received_at and value) is only counted once.
+   */
+  function readings(imei: string, metric: SensorMetric, range: { since?: number; until?: number } = {}): SensorReading[] {
+    const seen = new Set<string>();
+    const out: SensorReading[] = [];
+    for (const snapshot of load(imei)) {
+      const r = extract(snapshot, metric);
+      if (!r) continue;
+      if (range.since != null && r.t < range.since) continue;
+      if (range.until != null && r.t > range.until) continue;
+      const key = `${r.t}:${r.value}:${r.value2 ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push(r);
+    }
+    return out.sort((a, b) => a.t - b.t);
+  }
+
+  return {
+    readings,
+
+    /** Append a snapshot. Prunes entries older than the retention window at most once a day per watch. */
+    record(imei: string, ctx: MessageContext, now = Date.now()): void {
+      mkdirSync(dir, { recursive: true });
+      appendFileSync(fileFor(imei), JSON.stringify({ t: now, ctx } satisfies StoredSnapshot) + "\n", "utf-8");
+      if (now - (lastPrune.get(imei) ?? 0) > DAY_MS) prune(imei, now);
+    },
+
+    /** Aggregate a metric over the last `days` local days (today included). */
+    summarize(
+      imei: string,
+      metric: SensorMetric,
+      opts: { days: number; offsetDays?: number; now?: number; timeZone?: string }
+    ): SensorSummary {
+      const now = opts.now ?? Date.now();
+      const offset = opts.offsetDays ?? 0;
+      const keys = recentDayKeys(opts.days + offset, now, opts.timeZone).slice(offset);
+      const wanted = new Set(keys);
+      // Widen the scan by a day on each side; the day-key filter does the exact cut
+      const all = readings(imei, metric, {
+        since: now - (opts.days + offset + 1) * DAY_MS,
+        until: now + DAY_MS,
+      }).filter((r) => wanted.has(dayKey(r.t, opts.timeZone)));
+
+      const byDay = new Map<string, SensorReading[]>();
+      for (const r of all) {
+        const key = dayKey(r.t, opts.timeZone);
+        byDay.set(key, [...(byDay.get(key) ?? []), r]);
+      }
+      const days: DailySummary[] = [...keys]
+        .reverse()
+        .filter((date) => byDay.has(date))
+        .map((date) => {
+          const rs = byDay.get(date)!;
+          const secondary = metric === "blood_pressure" ? stats(rs.map((r) => r.value2 ?? 0)) : null;
+          return { date, ...stats(rs.map((r) => r.value))!, ...(secondary ? { secondary } : {}) };
+        });
+
+      const summary: SensorSummary = {
+        metric,
+        readings: all.length,
+        overall: stats(all.map((r) => r.value)),
+        secondary: metric === "blood_pressure" ? stats(all.map((r) => r.value2 ?? 0)) : null,
+        days,
+      };
+      if (metric === "steps") {
+        // Steps are a running "today" counter, so a day's total is its highest reading
+        summary.totalSteps = days.reduce((sum, d) => sum + d.max, 0);
+      }
+      return summary;
+    },
+  };
+}
+
+export type SensorStore = ReturnType<typeof createSensorStore>;
+
+const METRIC_LABELS: Record<SensorMetric, string> = {
+  heart_rate: "Heart rate",
+  oxygen: "Blood oxygen",
+  temperature: "Temperature",
+  blood_pressure: "Blood pressure",
+  steps: "Steps",
+  battery: "Battery",
+};
+
+/** Plain-text summary for the agent. */
+export function formatSensorSummary(summary: SensorSummary, periodLabel: string): string {
+  const label = METRIC_LABELS[summary.metric];
+  const unit = SENSOR_UNITS[summary.metric];
+  if (!summary.overall) {
+    return `${label}: no readings ${periodLabel}.`;
+  }
+  const lines: string[] = [];
+  if (summary.metric === "steps") {
+    lines.push(`${label} ${periodLabel}: ${summary.totalSteps} total over ${summary.days.length} day(s).`);
+    for (const d of summary.days) lines.push(`- ${d.date}: ${d.max} steps`);
+    return lines.join("\n");
+  }
+  const o = summary.overall;
+  if (summary.metric === "blood_pressure" && summary.secondary) {
+    const s = summary.secondary;
+    lines.push(
+      `${label} ${periodLabel}: ${o.count} readings, avg ${o.avg}/${s.avg} ${unit}, ` +
+        `systolic ${o.min}-${o.max}, diastolic ${s.min}-${s.max}, latest ${o.last}/${s.last}.`
+    );
+    if (summary.days.length > 1) {
+      for (const d of summary.days) {
+        lines.push(`- ${d.date}: avg ${d.avg}/${d.secondary?.avg ?? "?"}, ${d.count} readings`);
+      }
+    }
+    return lines.join("\n");
+  }
+  lines.push(`${label} ${periodLabel}: ${o.count} readings, min ${o.min}, max ${o.max}, avg ${o.avg} ${unit}, latest ${o.last}.`);
+  if (summary.days.length > 1) {
+    for (const d of summary.days) {
+      lines.push(`- ${d.date}: min ${d.min}, max ${d.max}, avg ${d.avg} (${d.count} readings)`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,113 @@
+/**
+ * Which conversation each watch is in. The session strategy decides how the key is
+ * built (per watch, per day, after idle gaps, or one shared session); "new conversation"
+ * and idle rotation give the watch a fresh suffix. Both are kept in the plugin state dir
+ * so a restart does not drop the wearer back into the previous conversation.
+ */
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { ClawatchConfig, SessionStrategy } from "./types.js";
+import { resolveWatchProfile, DEFAULT_SESSION_PREFIX, DEFAULT_SHARED_SESSION_KEY } from "./config.js";
+import { dayKey } from "./sensors.js";
+
+export const SESSIONS_FILE = "sessions.json";
+
+export type SessionRecord = {
+  /** Suffix of the current conversation; unset for the original one. */
+  suffix?: string;
+  /** Last inbound message, for idle rotation. */
+  lastActiveAt?: number;
+};
+
+export type SessionKeyOptions = {
+  strategy: SessionStrategy;
+  prefix: string;
+  sharedKey: string;
+  /** For "daily": the wearer's day boundary. */
+  timeZone?: string;
+  /** For "idle": silence after which the next message starts a new conversation. */
+  idleMs?: number;
+};
+
+export function createSessionStore(filePath: string) {
+  function load(): Record<string, SessionRecord> {
+    try {
+      const data = JSON.parse(readFileSync(filePath, "utf-8")) as unknown;
+      if (!data || typeof data !== "object" || Array.isArray(data)) return {};
+      const out: Record<string, SessionRecord> = {};
+      for (const [imei, value] of Object.entries(data as Record<string, unknown>)) {
+        // Older files hold the bare suffix string
+        if (typeof value === "string") out[imei] = { suffix: value };
+        else if (value && typeof value === "object") out[imei] = value as SessionRecord;
+      }
+      return out;
+    } catch {
+      return {};
+    }
+  }
+
+  function save(data: Record<string, SessionRecord>): void {
+    mkdirSync(dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8");
+    renameSync(tmp, filePath);
+  }
+
+  return {
+    get(imei: string): SessionRecord {
+      return load()[imei] ?? {};
+    },
+
+    /** Start a new conversation for the watch; returns its suffix. */
+    reset(imei: string, now = Date.now()): string {
+      const data = load();
+      const suffix = now.toString(36);
+      data[imei] = { ...data[imei], suffix };
+      save(data);
+      return suffix;
+    },
+
+    /**
+     * Note an inbound message. When the watch has been silent for longer than `idleMs`,
+     * a new conversation starts first. Returns the updated record.
+     */
+    touch(imei: string, now = Date.now(), idleMs?: number): SessionRecord {
+      const data = load();
+      const record: SessionRecord = { ...data[imei] };
+      if (idleMs && record.lastActiveAt != null && now - record.lastActiveAt > idleMs) {
+        record.suffix = now.toString(36);
+      }
+      record.lastActiveAt = now;
+      data[imei] = record;
+      save(data);
+      return record;
+    },
+  };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
+
+/** Strategy, prefix and time zone for one watch, from its profile and the global config. */
+export function sessionKeyOptions(config: ClawatchConfig, imei: string): SessionKeyOptions {
+  const profile = resolveWatchProfile(config, imei);
+  return {
+    strategy: profile.sessionStrategy,
+    prefix: config.sessionKeyPrefix ?? DEFAULT_SESSION_PREFIX,
+    sharedKey: config.sharedSessionKey ?? DEFAULT_SHARED_SESSION_KEY,
+    timeZone: profile.timeZone,
+    idleMs: profile.sessionStrategy === "idle" ? (config.sessionIdleMin ?? 30) * 60_000 : undefined,
+  };
+}
+
+/**
+ * Session key for a watch's current conversation, e.g. "clawatch:<imei>",
+ * "clawatch:<imei>:<suffix>", "clawatch:<imei>:2026-10-19" (daily) or the shared key.
+ * A shared session is the same for every watch, so "new conversation" does not change it.
+ */
+export function sessionKeyFor(imei: string, record: SessionRecord, opts: SessionKeyOptions, now = Date.now()): string {
+  if (opts.strategy === "shared") return opts.sharedKey;
+  const parts = [`${opts.prefix}${imei}`];
+  if (opts.strategy === "daily") parts.push(dayKey(now, opts.timeZone));
+  if (record.suffix) parts.push(record.suffix);
+  return parts.join(":");
+}
@@ -0,0 +1,131 @@
+/**
+ * Speech normalization: turn agent text (markdown, lists, tables, URLs, code, emoji,
+ * unit symbols) into something a screenless watch can read aloud. Applied to replies,
+ * including each streamed chunk, and to pushes. Rules can be switched per locale.
+ */
+import type { SpeechConfig, SpeechRule } from "./types.js";
+import { spokenPhrase } from "./locale.js";
+
+export const SPEECH_RULES: SpeechRule[] = ["markdown", "urls", "units", "codeBlocks", "emoji"];
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const URL_RE = /\bhttps?:\/\/[^\s<>()]*[^\s<>().,!?;:'"]|\bwww\.[^\s<>()]*[^\s<>().,!?;:'"]/gi;
+const NUMBER = String.raw`(-?\d+(?:[.,]\d+)?(?:\/\d+)?)`;
+const UNIT_PATTERNS: Array<{ re: RegExp; phrase: "celsius" | "fahrenheit" | "bpm" | "percent" | "mmHg" }> = [
+  { re: new RegExp(`${NUMBER}\\s*°\\s*C\\b`, "g"), phrase: "celsius" },
+  { re: new RegExp(`${NUMBER}\\s*°\\s*F\\b`, "g"), phrase: "fahrenheit" },
+  { re: new RegExp(`${NUMBER}\\s*bpm\\b`, "gi"), phrase: "bpm" },
+  { re: new RegExp(`${NUMBER}\\s*mm\\s?Hg\\b`, "gi"), phrase: "mmHg" },
+  { re: new RegExp(`${NUMBER}\\s*%`, "g"), phrase: "percent" },
+];
+const EMOJI_RE = /\p{Extended_Pictographic}(?:\u{FE0F}|\u200D\p{Extended_Pictographic}|\p{Emoji_Modifier})*|\u{FE0F}/gu;
+
+/** Rules in effect for a locale: the exact tag's overrides, else the base language's, over the global rules. */
+export function speechRulesFor(config: SpeechConfig | undefined, locale?: string): Record<SpeechRule, boolean> {
+  const rules = Object.fromEntries(SPEECH_RULES.map((r) => [r, config?.enabled !== false])) as Record<SpeechRule, boolean>;
+  if (config?.enabled === false) return rules;
+  Object.assign(rules, config?.rules);
+  if (locale && config?.locales) {
+    const tag = locale.replace(/_/g, "-").toLowerCase();
+    const byTag = Object.entries(config.locales).find(([k]) => k.toLowerCase() === tag)?.[1];
+    const byBase = Object.entries(config.locales).find(([k]) => k.toLowerCase() === tag.split("-")[0])?.[1];
+    Object.assign(rules, byTag ?? byBase);
+  }
+  return rules;
+}
+
+export type SpeechNormalizer = {
+  /**
+   * Normalize the next piece of one reply. Keeps track of open code blocks, so streamed
+   * chunks can be passed one at a time; returns "" when nothing is left to say.
+   */
+  normalize: (text: string) => string;
+};
+
+/** A normalizer for one reply or push in the watch's locale. */
+export function createSpeechNormalizer(config: SpeechConfig | undefined, locale?: string): SpeechNormalizer {
+  const rules = speechRulesFor(config, locale);
+  let inCode = false;
+
+  function line(text: string): string | null {
+    if (rules.codeBlocks && FENCE_RE.test(text)) {
+      inCode = !inCode;
+      return inCode ? spokenPhrase("codeSkipped", locale) : null;
+    }
+    if (inCode) return null;
+    let out = text;
+    if (rules.markdown) {
+      // Table separator rows and horizontal rules carry nothing to say
+      if (/^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(out) || /^\s*([-*_])(\s*\1){2,}\s*$/.test(out)) {
+        return null;
+      }
+      out = out
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+        .replace(/^\s*#{1,6}\s+/, "")
+        .replace(/^\s*>\s?/, "")
+        .replace(/^\s*[-*+•]\s+/, "")
+        .replace(/\*\*(.+?)\*\*|__(.+?)__/g, "$1$2")
+        .replace(/~~(.+?)~~/g, "$1")
+        .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, "$1$2")
+        .replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, "$1$2")
+        .replace(/`([^`]*)`/g, "$1")
+        // Markers left unpaired where a streamed chunk was cut
+        .replace(/\*\*|`/g, "");
+      if (/^\s*\|.*\|\s*$/.test(out)) {
+        out = out
+          .trim()
+          .replace(/^\||\|$/g, "")
+          .split("|")
+          .map((cell) => cell.trim())
+          .filter(Boolean)
+          .join(", ");
+      }
+    }
+    if (rules.urls) out = out.replace(URL_RE, spokenPhrase("link", locale));
+    if (rules.units) {
+      for (const { re, phrase } of UNIT_PATTERNS) {
+        out = out.replace(re, (_m, value: string) => spokenPhrase(phrase, locale, { value }));
+      }
+    }
+    if (rules.emoji) out = out.replace(EMOJI_RE, "").replace(/\s+(?=[,.!?;:])/g, "");
+    return out.replace(/[ \t]{2,}/g, " ").trim();
+  }
+
+  return {
+    normalize(text: string): string {
+      return text
+        .split("\n")
+        .map(line)
+        .filter((l): l is string => l !== null && l.length > 0)
+        .join("\n");
+    },
+  };
+}
+
+/** Normalize a whole reply or push at once. */
+export function normalizeForSpeech(text: string, config: SpeechConfig | undefined, locale?: string): string {
+  return createSpeechNormalizer(config, locale).normalize(text);
+}
+
+/** Parse config.speech; unknown rules and non-boolean values are ignored. */
+export function parseSpeechConfig(raw: unknown): SpeechConfig {
+  const o = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const locales: Record<string, Partial<Record<SpeechRule, boolean>>> = {};
+  if (o.locales && typeof o.locales === "object" && !Array.isArray(o.locales)) {
+    for (const [tag, value] of Object.entries(o.locales as Record<string, unknown>)) {
+      locales[tag] = parseRules(value);
+    }
+  }
+  return { enabled: o.enabled !== false, rules: parseRules(o.rules), locales };
+}
+
+function parseRules(raw: unknown): Partial<Record<SpeechRule, boolean>> {
+  const out: Partial<Record<SpeechRule, boolean>> = {};
+  if (!raw || typeof raw !== "object") return out;
+  for (const rule of SPEECH_RULES) {
+    const v = (raw as Record<string, unknown>)[rule];
+    if (typeof v === "boolean") out[rule] = v;
+  }
+  return out;
+}
@@ -0,0 +1,153 @@
+/**
+ * Per-watch conversation transcript: every inbound message, reply, interim, push and
+ * error, one JSONL file per IMEI per day under the plugin state dir. Day files make
+ * rotation and retention a matter of deleting old files.
+ */
+import { appendFileSync, readFileSync, readdirSync, mkdirSync, existsSync, rmSync } from "fs";
+import { join } from "path";
+import { dayKey } from "./sensors.js";
+import type { MessageContext } from "./types.js";
+
+export const TRANSCRIPT_DIR = "transcripts";
+
+export type TranscriptKind = "inbound" | "reply" | "interim" | "push" | "error";
+
+export type TranscriptEntry = {
+  /** When it happened (ms). */
+  t: number;
+  kind: TranscriptKind;
+  imei: string;
+  /** Message id (inbound/reply/error) or push id. */
+  id?: string;
+  text?: string;
+  /** Inbound only: the sensor snapshot that came with the message. */
+  context?: MessageContext;
+  /** Inbound only: watch-side timestamp of the message. */
+  watchTimestamp?: number;
+  /** Reply/error only: time since the inbound message arrived. */
+  latencyMs?: number;
+  /** Push only: delivered (or sent without a receipt), queued for reconnect, held for quiet hours, or failed. */
+  status?: string;
+  /** Error only. */
+  code?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_FILE_RE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+export function createTranscriptStore(dir: string, opts: { retentionDays?: number } = {}) {
+  const retentionDays = opts.retentionDays ?? 30;
+  const lastPrune = new Map<string, number>();
+
+  function dirFor(imei: string): string {
+    return join(dir, imei.replace(/[^\w-]/g, "_"));
+  }
+
+  /** Day files for a watch, oldest first. */
+  function dayFiles(imei: string): string[] {
+    const d = dirFor(imei);
+    if (!existsSync(d)) return [];
+    return readdirSync(d)
+      .filter((f) => DAY_FILE_RE.test(f))
+      .sort();
+  }
+
+  function prune(imei: string, now: number): void {
+    const cutoff = dayKey(now - retentionDays * DAY_MS);
+    for (const file of dayFiles(imei)) {
+      if (file.slice(0, 10) < cutoff) rmSync(join(dirFor(imei), file), { force: true });
+    }
+    lastPrune.set(imei, now);
+  }
+
+  return {
+    /** Append an entry to today's file. Deletes day files past retention at most once a day per watch. */
+    append(entry: TranscriptEntry): void {
+      const d = dirFor(entry.imei);
+      mkdirSync(d, { recursive: true });
+      appendFileSync(join(d, `${dayKey(entry.t)}.jsonl`), JSON.stringify(entry) + "\n", "utf-8");
+      if (entry.t - (lastPrune.get(entry.imei) ?? 0) > DAY_MS) prune(entry.imei, entry.t);
+    },
+
+    /** Entries in time order, optionally limited to a range and to the last `limit`. */
+    read(imei: string, range: { since?: number; until?: number; limit?: number } = {}): TranscriptEntry[] {
+      const sinceDay = range.since != null ? dayKey(range.since - DAY_MS) : "";
+      const out: TranscriptEntry[] = [];
+      for (const file of dayFiles(imei)) {
+        // Skip whole days before the range (one day of slack for time zone offsets)
+        if (file.slice(0, 10) < sinceDay) continue;
+        for (const line of readFileSync(join(dirFor(imei), file), "utf-8").split("\n")) {
+          if (!line.trim()) continue;
+          let entry: TranscriptEntry;
+          try {
+            entry = JSON.parse(line) as TranscriptEntry;
+          } catch {
+            continue;
+          }
+          if (range.since != null && entry.t < range.since) continue;
+          if (range.until != null && entry.t > range.until) continue;
+          out.push(entry);
+        }
+      }
+      out.sort((a, b) => a.t - b.t);
+      return range.limit != null ? out.slice(-range.limit) : out;
+    },
+
+    /** IMEIs that have a transcript. */
+    listImeis(): string[] {
+      if (!existsSync(dir)) return [];
+      return readdirSync(dir, { withFileTypes: true })
+        .filter((e) => e.isDirectory())
+        .map((e) => e.name)
+        .sort();
+    },
+  };
+}
+
+export type TranscriptStore = ReturnType<typeof createTranscriptStore>;
+
+/** "30m", "12h", "7d" before now, or anything Date.parse understands. Returns null when unparseable. */
+export function parseSince(arg: string, now = Date.now()): number | null {
+  const m = arg.trim().match(/^(\d+)\s*(m|h|d)$/i);
+  if (m) {
+    const n = Number(m[1]);
+    const unit = m[2]!.toLowerCase();
+    const ms = unit === "m" ? 60 * 1000 : unit === "h" ? 60 * 60 * 1000 : DAY_MS;
+    return now - n * ms;
+  }
+  const t = Date.parse(arg);
+  return Number.isNaN(t) ? null : t;
+}
+
+const KIND_LABELS: Record<TranscriptKind, string> = {
+  inbound: "watch  ",
+  reply: "agent  ",
+  interim: "interim",
+  push: "push   ",
+  error: "error  ",
+};
+
+/** Human-readable lines for the CLI. */
+export function formatTranscript(entries: TranscriptEntry[], timeZone?: string): string {
+  const fmt = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  });
+  return entries
+    .map((e) => {
+      const meta: string[] = [];
+      if (e.id) meta.push(e.id);
+      if (e.latencyMs != null) meta.push(`${(e.latencyMs / 1000).toFixed(1)}s`);
+      if (e.status) meta.push(e.status);
+      if (e.code) meta.push(e.code);
+      const text = (e.text ?? "").replace(/\s+/g, " ");
+      return `${fmt.format(e.t).replace(",", "")}  ${KIND_LABELS[e.kind]}  ${text}${meta.length ? `  [${meta.join(", ")}]` : ""}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,69 @@
+/**
+ * Recent inbound message ids and how their turn ended, so a `message` frame the cloud
+ * redelivers after a reconnect does not run a second agent turn. Bounded and time-limited;
+ * in memory only, since the cloud only redelivers across reconnects, not restarts.
+ */
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+export type TurnRecord =
+  | { status: "running"; redelivered: boolean }
+  | { status: "done"; reply: string }
+  | { status: "failed"; error: string; code: string };
+
+export function createTurnCache(ttlMs: number, maxEntries = DEFAULT_MAX_ENTRIES, now: () => number = Date.now) {
+  // Insertion order is start order, so the first key is the oldest
+  const entries = new Map<string, { record: TurnRecord; at: number }>();
+
+  function prune(): void {
+    const cutoff = now() - ttlMs;
+    for (const [id, entry] of entries) {
+      // Running turns stay until they finish, however long they take
+      if (entry.record.status !== "running" && entry.at < cutoff) entries.delete(id);
+    }
+    while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+  }
+
+  return {
+    /** The turn for a message id seen within the TTL, or null for a new id. */
+    get(id: string): TurnRecord | null {
+      prune();
+      return entries.get(id)?.record ?? null;
+    },
+
+    /** Register a new turn as running. */
+    start(id: string): void {
+      entries.set(id, { record: { status: "running", redelivered: false }, at: now() });
+      prune();
+    },
+
+    /** Mark a running turn as redelivered; returns false when it is not running. */
+    markRedelivered(id: string): boolean {
+      const entry = entries.get(id);
+      if (entry?.record.status !== "running") return false;
+      entry.record.redelivered = true;
+      return true;
+    },
+
+    /** Whether a duplicate of this running turn has arrived since it started. */
+    wasRedelivered(id: string): boolean {
+      const record = entries.get(id)?.record;
+      return record?.status === "running" && record.redelivered;
+    },
+
+    complete(id: string, reply: string): void {
+      entries.set(id, { record: { status: "done", reply }, at: now() });
+    },
+
+    /** Record a failed turn; `code` is the error frame code repeated to duplicates. */
+    fail(id: string, error: string, code = "agent_error"): void {
+      entries.set(id, { record: { status: "failed", error, code }, at: now() });
+    },
+
+    size(): number {
+      return entries.size;
+    },
+  };
+}
+
+export type TurnCache = ReturnType<typeof createTurnCache>;
@@ -4,11 +4,224 @@ export type ClawatchConfig = {
   deviceCode?: string;
   apiToken?: string;
   agentId?: string;
+  /** More agents a wearer may pick with "switch to <agent>", besides agentId and the watch profiles' agents. */
+  switchableAgents?: string[];
   sessionKeyPrefix?: string;
+  /** How watch conversations map to agent sessions; see SessionStrategy. Default: "persistent". */
+  sessionStrategy?: SessionStrategy;
+  /** For the "idle" strategy: minutes of silence before the next message starts a new session. Default: 30. */
+  sessionIdleMin?: number;
+  /** For the "shared" strategy: the session every watch talks in. Default: "main". */
+  sharedSessionKey?: string;
   /** System prompt for TTS-friendly replies (short, natural speech). Empty = use agent default. */
   ttsSystemPrompt?: string;
   /** Enable interim status messages before long-running tools. Default: true. */
   interimStatusEnabled?: boolean;
+  /** Send partial replies (done: false) at sentence boundaries while the agent streams. Default: true. */
+  streamReplies?: boolean;
+  /** Minimum characters per streamed chunk, so the watch is not flooded with fragments. Default: 40. */
+  streamMinChunkChars?: number;
+  /** How long to wait for a control_ack before failing a control command. Default: 15000. */
+  controlTimeoutMs?: number;
+  /** How long a push waits in the offline queue before it is discarded. Default: 86400 (24h). */
+  pushQueueTtlSec?: number;
+  /** How long to wait for the cloud's push_ack before resending; 0 = do not wait for receipts. Default: 0. */
+  pushAckTimeoutMs?: number;
+  /** Resends of a push the cloud has not acknowledged before it counts as failed. Default: 2. */
+  pushRetries?: number;
+  /** Gateway request limits: until response headers, until the first token, and overall. Defaults: 10000 / off / 120000. */
+  gatewayConnectTimeoutMs?: number;
+  gatewayFirstTokenTimeoutMs?: number;
+  gatewayTimeoutMs?: number;
+  /** Extra attempts when the Gateway certainly did not take the turn (unreachable, connect timeout, 502/503/504). Default: 2. */
+  gatewayRetries?: number;
+  /** Second message while a turn runs: "queue" it behind the first, or "supersede" (cancel) the first. Default: "queue". */
+  turnPolicy?: "queue" | "supersede";
+  /** How long a message id is remembered so a redelivered message does not run a second turn. Default: 600. */
+  dedupeTtlSec?: number;
+  /** Save each inbound sensor snapshot for the clawatch_history tool. Default: true. */
+  sensorHistoryEnabled?: boolean;
+  /** Days of sensor history to keep per watch. Default: 90. */
+  sensorRetentionDays?: number;
+  /** Save every message, reply, push and error per watch for `openclaw clawatch history`. Default: true. */
+  transcriptEnabled?: boolean;
+  /** Days of transcript to keep per watch. Default: 30. */
+  transcriptRetentionDays?: number;
+  /** Windows when pushes are held instead of spoken, for every watch without its own. Default: none. */
+  quietHours?: QuietHours[];
+  /** Ask the agent for a short spoken summary of media sent to the watch, after its description. Default: false. */
+  mediaSummary?: boolean;
+  /** OpenClaw channel told when the cloud rejects an account's API token (e.g. telegram + chat id). Default: none. */
+  tokenRejectedNotify?: { channel: string; to: string };
+  /** Post-processing of replies and pushes into speakable text. Default: every rule on. */
+  speech?: SpeechConfig;
+  /** Characters of a reply spoken at once; the rest waits for "more". Default: 500. */
+  replyCharBudget?: number;
+  /** Extra watch commands (messages with isCommand) mapped to tool calls; checked before the built-ins. */
+  commands?: CommandRule[];
+  /** Health threshold rules evaluated on every inbound sensor snapshot. */
+  alerts?: AlertRule[];
+  /** Named places per watch; entering or leaving one raises a geofence event. */
+  geofences?: Geofence[];
+  /** Reverse geocoding for the agent context: "offline" (bundled + saved places) or "off". Default: "offline". */
+  geocoder?: "offline" | "off";
+  /** JSON array of extra places ({ name, country?, lat, lng, radiusM? }) for the offline geocoder. */
+  geocodeDatasetPath?: string;
+  /** Maximum age (minutes) per context field before a reading counts as stale. Unset fields use built-in defaults. */
+  contextMaxAgeMin?: Partial<Record<ContextField, number>>;
+  /** What to do with stale readings in the agent context: "mark" them or "drop" them. Default: "mark". */
+  staleContext?: "mark" | "drop";
+  /** Per-watch profiles keyed by IMEI; unset fields fall back to the global settings above. */
+  watches?: Record<string, WatchProfile>;
+  /** Additional cloud accounts by id. The top-level apiUrl/apiToken are the "default" account. */
+  accounts?: Record<string, ClawatchAccountConfig>;
+};
+
+export type ClawatchAccountConfig = {
+  enabled?: boolean;
+  /** Default: the standard Clawatch API URL. */
+  apiUrl?: string;
+  apiToken?: string;
+};
+
+/**
+ * persistent: one session per watch until "new conversation". daily: a new session each
+ * local day. idle: a new session after sessionIdleMin of silence. shared: every watch
+ * talks in sharedSessionKey (e.g. the agent's main session).
+ */
+export type SessionStrategy = "persistent" | "daily" | "idle" | "shared";
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+/** A recurring window ("22:00" to "07:00") in which proactive pushes are held until it ends. */
+export type QuietHours = {
+  start: string;
+  end: string;
+  /** Days the window starts on. Default: every day. */
+  days?: Weekday[];
+};
+
+/** One cloud account the service connects to, with its own token and connector. */
+export type ClawatchAccount = {
+  id: string;
+  enabled: boolean;
+  apiUrl: string;
+  apiToken?: string;
+};
+
+/** Fields of MessageContext that carry their own received_at. */
+export type ContextField = "location" | "steps" | "battery" | "heart_rate" | "temperature" | "oxygen" | "blood_pressure";
+
+/** Per-watch agent routing and persona, so e.g. a child's and a grandparent's watch can differ. */
+export type WatchProfile = {
+  /** Agent for this watch. Default: config.agentId. */
+  agentId?: string;
+  /** System prompt for this watch. Default: config.ttsSystemPrompt. */
+  systemPrompt?: string;
+  /** BCP 47 locale the agent should speak (e.g. "zh-CN"). Default: agent default. */
+  locale?: string;
+  /** Units for sensor values in context. Default: "metric". */
+  units?: "metric" | "imperial";
+  /** Context fields shared with the agent. Default: all. */
+  contextFields?: ContextField[];
+  /** IANA time zone of the wearer (e.g. "Asia/Singapore"), for local times in context and history. Default: system time zone. */
+  timeZone?: string;
+  /** Quiet hours for this watch, in its timeZone. Default: config.quietHours. */
+  quietHours?: QuietHours[];
+  /** Reply budget for this watch. Default: config.replyCharBudget. */
+  replyCharBudget?: number;
+  /** Session strategy for this watch. Default: config.sessionStrategy. */
+  sessionStrategy?: SessionStrategy;
+};
+
+/**
+ * What to do when an alert (or other watch event) fires.
+ * push: speak `message` on the watch. agent: start an agent turn on the watch's
+ * session with `message` as the prompt and push the reply. channel: deliver
+ * `message` to another OpenClaw channel (`channel` + `to`).
+ * `message` may use {imei} and {label} placeholders, plus {value} and {threshold}
+ * for alerts or {place} and {event} ("enter" | "leave") for geofences.
+ */
+export type WatchAction = {
+  type: "push" | "agent" | "channel";
+  message?: string;
+  channel?: string;
+  to?: string;
+  /** push / agent: speak even during quiet hours or do-not-disturb. Alerts default to true, geofences to false. */
+  urgent?: boolean;
+};
+
+/** An event raised by the runtime (an alert or a geofence crossing) whose actions the plugin should run. */
+export type WatchEvent = {
+  kind: "alert" | "geofence";
+  imei: string;
+  /** Default text when an action has no message of its own. */
+  message: string;
+  /** Values for {placeholders} in action messages. */
+  vars: Record<string, string | number | undefined>;
+  actions: WatchAction[];
+};
+
+export type AlertMetric = "heart_rate" | "oxygen" | "temperature" | "systolic" | "diastolic" | "battery";
+
+/**
+ * markdown: strip formatting, bullets and table pipes. urls: say "a link". units: read out
+ * °C, °F, bpm, mmHg and %. codeBlocks: replace fenced code with a short spoken note.
+ * emoji: drop emoji.
+ */
+export type SpeechRule = "markdown" | "urls" | "units" | "codeBlocks" | "emoji";
+
+export type SpeechConfig = {
+  /** Default: true. When false, text is sent to the watch as the agent wrote it. */
+  enabled?: boolean;
+  /** Rules to switch off (or on) for every watch. */
+  rules?: Partial<Record<SpeechRule, boolean>>;
+  /** Per-locale overrides keyed by BCP 47 tag ("zh-CN") or base language ("zh"). */
+  locales?: Record<string, Partial<Record<SpeechRule, boolean>>>;
+};
+
+/** A watch command phrase that calls an agent tool directly, without an LLM turn. */
+export type CommandRule = {
+  /** Phrases that trigger the command; matched ignoring case, punctuation and a leading "/". */
+  phrases: string[];
+  /** Tool name invoked through the Gateway. */
+  tool: string;
+  args?: Record<string, unknown>;
+  /** Spoken on success. Default: the tool's text result, else "Done." */
+  reply?: string;
+};
+
+export type AlertRule = {
+  id: string;
+  /** Restrict to one watch; omit for all paired watches. */
+  imei?: string;
+  metric: AlertMetric;
+  /** Fire when the reading is below this value. */
+  below?: number;
+  /** Fire when the reading is above this value. */
+  above?: number;
+  /** Only fire when the wearer appears to be resting (steps barely changed since the last snapshot). */
+  atRest?: boolean;
+  /** Minimum minutes between two firings of this rule for the same watch. Default: 30. */
+  cooldownMin?: number;
+  /** Actions to run when the rule fires. Default: push a spoken warning. */
+  actions?: WatchAction[];
+};
+
+/** A named place: a circle (lat, lng, radiusM) or a polygon of at least 3 points. */
+export type Geofence = {
+  name: string;
+  /** Restrict to one watch; omit for all paired watches. */
+  imei?: string;
+  lat?: number;
+  lng?: number;
+  radiusM?: number;
+  /** Used instead of the circle when present. */
+  polygon?: { lat: number; lng: number }[];
+  /** Actions when the watch enters the place. Default: none (the place still shows in context). */
+  onEnter?: WatchAction[];
+  /** Actions when the watch leaves the place. Default: none. */
+  onLeave?: WatchAction[];
 };
 
 export type WatchInfo = {
@@ -87,6 +300,10 @@ export type ControlAckFrame = {
   type: "control_ack";
   id: string;
   ok: boolean;
+  /** Action-specific payload from the watch (e.g. current config for get_config). */
+  result?: Record<string, unknown>;
+  /** Reason when ok is false. */
+  error?: string;
 };
 
 /** Outbound: plugin → cloud. For Reminder/Cron push to watch. */
@@ -97,6 +314,29 @@ export type PushFrame = {
   text: string;
 };
 
+/** Inbound: cloud → plugin. Receipt for a push frame with the same id. */
+export type PushAckFrame = {
+  type: "push_ack";
+  id: string;
+  /** false when the cloud could not deliver the push to the watch. */
+  ok: boolean;
+  /** Reason when ok is false. */
+  error?: string;
+};
+
+/**
+ * Result of runtime.sendPush: delivered (acknowledged by the cloud), sent on the socket
+ * without waiting for a receipt (pushAckTimeoutMs: 0), queued until the cloud link is back,
+ * or held until quiet hours / do-not-disturb end. Failures reject instead.
+ */
+export type PushResult = {
+  /** Id of the push frame (the one a push_ack refers to). */
+  id: string;
+  status: "delivered" | "sent" | "queued" | "held";
+  /** For "held": when the push is due to go out. */
+  holdUntil?: number;
+};
+
 export type ClawatchWSFrame =
   | RegisterFrame
   | RegisteredFrame
@@ -107,4 +347,5 @@ export type ClawatchWSFrame =
   | InboundMessageFrame
   | ReplyFrame
   | ControlFrame
-  | ControlAckFrame;
+  | ControlAckFrame
+  | PushAckFrame;
@@ -0,0 +1,128 @@
+/**
+ * Runtime validation of frames received from the cloud. Each frame type in types.ts
+ * has a schema here; anything that does not match is rejected at the connector
+ * boundary instead of failing deep inside message handling.
+ */
+import type { ClawatchWSFrame } from "./types.js";
+
+/** Returns a list of problems (empty when the value matches). */
+type Check = (value: unknown, path: string) => string[];
+
+export class FrameValidationError extends Error {
+  readonly frameType: string | undefined;
+  readonly frameId: string | undefined;
+  readonly issues: string[];
+
+  constructor(frameType: string | undefined, frameId: string | undefined, issues: string[]) {
+    super(`Invalid ${frameType ?? "unknown"} frame${frameId ? ` ${frameId}` : ""}: ${issues.join("; ")}`);
+    this.name = "FrameValidationError";
+    this.frameType = frameType;
+    this.frameId = frameId;
+    this.issues = issues;
+  }
+}
+
+const str: Check = (v, p) => (typeof v === "string" ? [] : [`${p} must be a string`]);
+const nonEmptyStr: Check = (v, p) => (typeof v === "string" && v.length > 0 ? [] : [`${p} must be a non-empty string`]);
+const num: Check = (v, p) => (typeof v === "number" && Number.isFinite(v) ? [] : [`${p} must be a number`]);
+const bool: Check = (v, p) => (typeof v === "boolean" ? [] : [`${p} must be a boolean`]);
+const record: Check = (v, p) =>
+  v !== null && typeof v === "object" && !Array.isArray(v) ? [] : [`${p} must be an object`];
+
+function optional(check: Check): Check {
+  return (v, p) => (v === undefined || v === null ? [] : check(v, p));
+}
+
+function literal(expected: string): Check {
+  return (v, p) => (v === expected ? [] : [`${p} must be "${expected}"`]);
+}
+
+function object(shape: Record<string, Check>): Check {
+  return (v, p) => {
+    const base = record(v, p);
+    if (base.length > 0) return base;
+    const o = v as Record<string, unknown>;
+    return Object.entries(shape).flatMap(([key, check]) => check(o[key], p ? `${p}.${key}` : key));
+  };
+}
+
+function arrayOf(check: Check): Check {
+  return (v, p) => (Array.isArray(v) ? v.flatMap((item, i) => check(item, `${p}[${i}]`)) : [`${p} must be an array`]);
+}
+
+const reading = object({ value: num, received_at: optional(num) });
+
+const messageContext = object({
+  location: optional(object({ lat: num, lng: num, received_at: optional(num) })),
+  steps: optional(reading),
+  battery: optional(reading),
+  health: optional(
+    object({
+      heart_rate: optional(reading),
+      temperature: optional(reading),
+      oxygen: optional(reading),
+      blood_pressure: optional(object({ systolic: num, diastolic: num, received_at: optional(num) })),
+    })
+  ),
+});
+
+const FRAME_SCHEMAS: Record<ClawatchWSFrame["type"], Check> = {
+  register: object({ type: literal("register"), token: str, client: str, version: str }),
+  registered: object({
+    type: literal("registered"),
+    watches: arrayOf(object({ imei: nonEmptyStr, label: optional(str) })),
+  }),
+  error: object({ type: literal("error"), code: optional(str), message: str, id: optional(str) }),
+  ping: object({ type: literal("ping") }),
+  pong: object({ type: literal("pong") }),
+  unbound: object({ type: literal("unbound"), imei: nonEmptyStr, reason: optional(str) }),
+  message: object({
+    type: literal("message"),
+    id: nonEmptyStr,
+    imei: nonEmptyStr,
+    text: str,
+    timestamp: optional(num),
+    isCommand: optional(bool),
+    context: optional(messageContext),
+  }),
+  reply: object({ type: literal("reply"), id: nonEmptyStr, text: str, done: bool }),
+  control: object({
+    type: literal("control"),
+    id: nonEmptyStr,
+    action: nonEmptyStr,
+    imei: nonEmptyStr,
+    params: optional(record),
+  }),
+  control_ack: object({
+    type: literal("control_ack"),
+    id: nonEmptyStr,
+    ok: bool,
+    result: optional(record),
+    error: optional(str),
+  }),
+  push_ack: object({ type: literal("push_ack"), id: nonEmptyStr, ok: bool, error: optional(str) }),
+};
+
+/**
+ * Validate a parsed JSON value as a cloud frame. Unknown frame types pass through
+ * untouched (forward compatibility); known types must match their schema.
+ * Throws FrameValidationError otherwise.
+ */
+export function validateFrame(raw: unknown): ClawatchWSFrame {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new FrameValidationError(undefined, undefined, ["frame must be a JSON object"]);
+  }
+  const o = raw as Record<string, unknown>;
+  if (typeof o.type !== "string") {
+    throw new FrameValidationError(undefined, typeof o.id === "string" ? o.id : undefined, ["type must be a string"]);
+  }
+  if (!Object.prototype.hasOwnProperty.call(FRAME_SCHEMAS, o.type)) {
+    return raw as ClawatchWSFrame;
+  }
+  const schema = FRAME_SCHEMAS[o.type as ClawatchWSFrame["type"]];
+  const issues = schema(raw, "");
+  if (issues.length > 0) {
+    throw new FrameValidationError(o.type, typeof o.id === "string" && o.id ? o.id : undefined, issues);
+  }
+  return raw as ClawatchWSFrame;
+}
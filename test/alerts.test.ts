@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createAlertEngine, parseAlertRules, renderTemplate } from "../src/alerts.js";
+
+const IMEI = "860000000000001";
+const MIN = 60 * 1000;
+
+describe("alerts", () => {
+  it("parses rules and drops unusable ones", () => {
+    const rules = parseAlertRules([
+      { metric: "oxygen", below: 92 },
+      { metric: "heart_rate" },
+      { metric: "mood", above: 3 },
+      { id: "hr", metric: "heart_rate", above: 130, actions: [{ type: "channel", channel: "telegram" }, { type: "agent" }] },
+    ]);
+    assert.deepEqual(rules.map((r) => r.id), ["oxygen-0", "hr"]);
+    assert.equal(rules[0]!.cooldownMin, 30);
+    assert.deepEqual(rules[0]!.actions, [{ type: "push", urgent: true }]);
+    // Channel action without `to` is dropped
+    assert.deepEqual(rules[1]!.actions?.map((a) => a.type), ["agent"]);
+  });
+
+  it("makes alert actions urgent unless they opt out", () => {
+    const [rule] = parseAlertRules([
+      { metric: "oxygen", below: 92, actions: [{ type: "push" }, { type: "agent", urgent: false }, { type: "channel", channel: "telegram", to: "1" }] },
+    ]);
+    assert.deepEqual(rule!.actions?.map((a) => a.urgent), [true, undefined, undefined]);
+  });
+
+  it("fires below and above thresholds with a spoken default message", () => {
+    const engine = createAlertEngine(
+      parseAlertRules([
+        { id: "spo2", metric: "oxygen", below: 92 },
+        { id: "bp", metric: "systolic", above: 160 },
+      ])
+    );
+    const events = engine.evaluate(IMEI, {
+      health: { oxygen: { value: 89 }, blood_pressure: { systolic: 170, diastolic: 95 } },
+    });
+    assert.deepEqual(events.map((e) => [e.rule.id, e.value, e.direction]), [
+      ["spo2", 89, "below"],
+      ["bp", 170, "above"],
+    ]);
+    assert.match(events[0]!.message, /blood oxygen is 89 percent, which is below 92/);
+  });
+
+  it("respects the cooldown per watch", () => {
+    const engine = createAlertEngine(parseAlertRules([{ id: "batt", metric: "battery", below: 15, cooldownMin: 10 }]));
+    const low = { battery: { value: 9 } };
+    assert.equal(engine.evaluate(IMEI, low, 0).length, 1);
+    assert.equal(engine.evaluate(IMEI, low, 9 * MIN).length, 0);
+    assert.equal(engine.evaluate("860000000000002", low, 9 * MIN).length, 1);
+    assert.equal(engine.evaluate(IMEI, low, 10 * MIN).length, 1);
+  });
+
+  it("limits rules to their IMEI", () => {
+    const engine = createAlertEngine(parseAlertRules([{ metric: "battery", below: 15, imei: "860000000000002" }]));
+    assert.equal(engine.evaluate(IMEI, { battery: { value: 5 } }).length, 0);
+  });
+
+  it("skips atRest rules while steps are climbing", () => {
+    const engine = createAlertEngine(
+      parseAlertRules([{ id: "hr", metric: "heart_rate", above: 130, atRest: true, cooldownMin: 0 }])
+    );
+    const hr = (steps: number) => ({ steps: { value: steps }, health: { heart_rate: { value: 140 } } });
+    assert.equal(engine.evaluate(IMEI, hr(1000)).length, 1, "no previous steps: treated as resting");
+    assert.equal(engine.evaluate(IMEI, hr(1400)).length, 0, "walking");
+    assert.equal(engine.evaluate(IMEI, hr(1410)).length, 1, "resting again");
+  });
+
+  it("ignores readings older than the context staleness limit", () => {
+    const engine = createAlertEngine(parseAlertRules([{ id: "hr", metric: "heart_rate", above: 130, cooldownMin: 0 }]), {
+      maxAgeMin: { heart_rate: 10 },
+    });
+    const now = Date.UTC(2026, 0, 1, 12);
+    const hr = (ageMin: number) => ({ health: { heart_rate: { value: 140, received_at: (now - ageMin * MIN) / 1000 } } });
+    assert.equal(engine.evaluate(IMEI, hr(5), now).length, 1);
+    assert.equal(engine.evaluate(IMEI, hr(15), now).length, 0);
+    // Blood pressure uses its own (default 240 min) limit
+    const bp = createAlertEngine(parseAlertRules([{ metric: "systolic", above: 160, cooldownMin: 0 }]));
+    const reading = (ageMin: number) => ({
+      health: { blood_pressure: { systolic: 170, diastolic: 90, received_at: now - ageMin * MIN } },
+    });
+    assert.equal(bp.evaluate(IMEI, reading(200), now).length, 1);
+    assert.equal(bp.evaluate(IMEI, reading(300), now).length, 0);
+  });
+
+  it("renders message templates", () => {
+    assert.equal(renderTemplate("{label}: {value} (limit {threshold}) {unknown}", { label: "Grandma", value: 88, threshold: 92 }),
+      "Grandma: 88 (limit 92) {unknown}");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createSentenceChunker, splitSpokenReply } from "../src/chunker.js";
+
+function run(deltas: string[], minChars: number): { chunks: string[]; rest: string } {
+  const chunks: string[] = [];
+  const chunker = createSentenceChunker(minChars, (c) => chunks.push(c));
+  for (const d of deltas) chunker.push(d);
+  return { chunks, rest: chunker.flush() };
+}
+
+describe("createSentenceChunker", () => {
+  it("emits at sentence boundaries once the minimum size is reached", () => {
+    const { chunks, rest } = run(["It is sunny. ", "Take a hat", " today. Enjoy"], 10);
+    assert.deepEqual(chunks, ["It is sunny.", "Take a hat today."]);
+    assert.equal(rest, "Enjoy");
+  });
+
+  it("holds short fragments until they reach the minimum", () => {
+    const { chunks, rest } = run(["Hi. ", "Ok. ", "Now a longer sentence. "], 20);
+    assert.deepEqual(chunks, ["Hi. Ok. Now a longer sentence."]);
+    assert.equal(rest, "");
+  });
+
+  it("does not split decimals or punctuation without trailing space", () => {
+    const { chunks, rest } = run(["Your temperature is 36.5 degrees"], 5);
+    assert.deepEqual(chunks, []);
+    assert.equal(rest, "Your temperature is 36.5 degrees");
+  });
+
+  it("does not split after common abbreviations", () => {
+    const { chunks, rest } = run(["Ask Dr. ", "Tan about it, e.g. ", "tomorrow"], 5);
+    assert.deepEqual(chunks, ["Ask Dr. Tan about it,"]);
+    assert.equal(rest, "e.g. tomorrow");
+  });
+
+  it("splits on CJK punctuation without whitespace", () => {
+    const { chunks, rest } = run(["今天天气很好。", "记得带伞"], 3);
+    assert.deepEqual(chunks, ["今天天气很好。"]);
+    assert.equal(rest, "记得带伞");
+  });
+});
+
+describe("splitSpokenReply", () => {
+  it("keeps a reply within the budget whole", () => {
+    assert.deepEqual(splitSpokenReply("Short answer.", 50), ["Short answer."]);
+  });
+
+  it("prefers paragraph and sentence boundaries", () => {
+    const text = "First paragraph is here.\n\nSecond paragraph. It has two sentences.";
+    assert.deepEqual(splitSpokenReply(text, 30), ["First paragraph is here.", "Second paragraph.", "It has two sentences."]);
+  });
+
+  it("does not cut a part after an abbreviation", () => {
+    assert.deepEqual(splitSpokenReply("Please phone your Dr. Tan, then rest.", 26), ["Please phone your Dr. Tan,", "then rest."]);
+  });
+
+  it("does not take a boundary that wastes most of the budget", () => {
+    const text = "Hi.\nThis line keeps going, with a clause, and then some more words";
+    assert.deepEqual(splitSpokenReply(text, 42), ["Hi.\nThis line keeps going, with a clause,", "and then some more words"]);
+  });
+
+  it("splits CJK text at its own punctuation and hard-cuts when there is none", () => {
+    assert.deepEqual(splitSpokenReply("今天天气很好。明天会下雨。", 8), ["今天天气很好。", "明天会下雨。"]);
+    assert.deepEqual(splitSpokenReply("abcdefghij", 4), ["abcd", "efgh", "ij"]);
+  });
+
+  it("leaves the first part empty when nothing fits in what streaming left", () => {
+    assert.deepEqual(splitSpokenReply("Another full sentence.", 30, 5), ["", "Another full sentence."]);
+  });
+});
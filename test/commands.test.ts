@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findAgent, matchCommand, isStopRequest, isMoreRequest, toolResultText, parseCommandRules } from "../src/commands.js";
+
+describe("matchCommand", () => {
+  it("matches built-in phrases ignoring case, punctuation and a leading slash", () => {
+    assert.deepEqual(matchCommand("/new"), { type: "new_conversation" });
+    assert.deepEqual(matchCommand("Start over."), { type: "new_conversation" });
+    assert.deepEqual(matchCommand("电量"), { type: "status" });
+    assert.deepEqual(matchCommand("Say that again?"), { type: "repeat" });
+    assert.deepEqual(matchCommand("STOP"), { type: "stop" });
+    assert.deepEqual(matchCommand("Do not disturb."), { type: "dnd", on: true });
+    assert.deepEqual(matchCommand("关闭免打扰"), { type: "dnd", on: false });
+    assert.equal(matchCommand("what's the weather"), null);
+    assert.equal(matchCommand("..."), null);
+  });
+
+  it("parses agent switches", () => {
+    assert.deepEqual(matchCommand("Switch to Homework Helper"), { type: "switch_agent", agentId: "homework-helper" });
+    assert.deepEqual(matchCommand("/agent main"), { type: "switch_agent", agentId: "main" });
+    assert.deepEqual(matchCommand("切换到 tutor"), { type: "switch_agent", agentId: "tutor" });
+    assert.deepEqual(matchCommand("switch to default"), { type: "switch_agent", agentId: null });
+  });
+
+  it("finds the configured agent a spoken name refers to", () => {
+    const agents = ["main", "Homework_Helper"];
+    assert.equal(findAgent("homework-helper", agents), "Homework_Helper");
+    assert.equal(findAgent("main", agents), "main");
+    assert.equal(findAgent("homewok", agents), null);
+  });
+
+  it("checks config rules before the built-ins", () => {
+    const rule = { phrases: ["status", "House status"], tool: "home_status" };
+    assert.deepEqual(matchCommand("house status!", [rule]), { type: "tool", rule });
+    assert.deepEqual(matchCommand("/status", [rule]), { type: "tool", rule });
+  });
+});
+
+describe("isStopRequest", () => {
+  it("recognizes stop words regardless of case and punctuation", () => {
+    assert.equal(isStopRequest("Stop."), true);
+    assert.equal(isStopRequest(" cancel! "), true);
+    assert.equal(isStopRequest("停止。"), true);
+    assert.equal(isStopRequest("stop the timer"), false);
+  });
+});
+
+describe("isMoreRequest", () => {
+  it("recognizes the word each locale's hint asks for", () => {
+    assert.equal(isMoreRequest("More!"), true);
+    assert.equal(isMoreRequest("继续"), true);
+    assert.equal(isMoreRequest("Weiter."), true);
+    assert.equal(isMoreRequest("more coffee please"), false);
+  });
+});
+
+describe("toolResultText", () => {
+  it("speaks strings and text content parts", () => {
+    assert.equal(toolResultText("  ok "), "ok");
+    assert.equal(
+      toolResultText({ content: [{ type: "text", text: "Lights on." }, { type: "image" }, { type: "text", text: "Enjoy." }] }),
+      "Lights on.  Enjoy."
+    );
+    assert.equal(toolResultText({ ok: true }), null);
+    assert.equal(toolResultText(undefined), null);
+  });
+});
+
+describe("parseCommandRules", () => {
+  it("keeps rules with phrases and a tool", () => {
+    const rules = parseCommandRules([
+      { phrases: ["lights on", 3, ""], tool: "home_lights", args: { on: true }, reply: "Done, lights on." },
+      { phrases: [], tool: "nothing" },
+      { phrases: ["no tool"] },
+      "junk",
+    ]);
+    assert.deepEqual(rules, [{ phrases: ["lights on"], tool: "home_lights", args: { on: true }, reply: "Done, lights on." }]);
+  });
+});
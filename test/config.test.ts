@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  accountConfigPath,
+  listAccounts,
+  parseImeiFromSessionKey,
+  resolveAccount,
+  resolveConfig,
+  resolveWatchProfile,
+  DEFAULT_API_URL,
+} from "../src/config.js";
+
+const CHILD = "860000000000001";
+const GRANDPA = "860000000000002";
+
+describe("watch profiles", () => {
+  const config = resolveConfig({
+    agentId: "main",
+    ttsSystemPrompt: "Be brief.",
+    watches: {
+      [CHILD]: { agentId: "kids", systemPrompt: "You are a friendly tutor.", contextFields: ["location", "steps", "mood"] },
+      [GRANDPA]: { locale: "zh-CN", units: "imperial", timeZone: "Not/AZone" },
+    },
+  })!;
+
+  it("overrides agent and prompt per watch", () => {
+    const child = resolveWatchProfile(config, CHILD);
+    assert.equal(child.agentId, "kids");
+    assert.equal(child.systemPrompt, "You are a friendly tutor.");
+    assert.deepEqual(child.contextFields, ["location", "steps"]);
+    assert.equal(child.units, "metric");
+  });
+
+  it("falls back to global settings", () => {
+    const grandpa = resolveWatchProfile(config, GRANDPA);
+    assert.equal(grandpa.agentId, "main");
+    assert.equal(grandpa.systemPrompt, "Be brief.");
+    assert.equal(grandpa.locale, "zh-CN");
+    assert.equal(grandpa.units, "imperial");
+    // Unknown zones are dropped rather than failing every turn
+    assert.equal(grandpa.timeZone, undefined);
+    assert.equal(resolveWatchProfile(config, "860000000000009").agentId, "main");
+  });
+});
+
+describe("accounts", () => {
+  const config = resolveConfig({
+    apiToken: "tok-sg",
+    accounts: {
+      eu: { apiUrl: "wss://api.eu.example/api/v1/watch/connect", apiToken: "tok-eu" },
+      spare: { enabled: false },
+      default: { apiToken: "ignored" },
+      "bad id": { apiToken: "x" },
+    },
+  })!;
+
+  it("lists the default account first, then named ones", () => {
+    const accounts = listAccounts(config);
+    assert.deepEqual(accounts.map((a) => [a.id, a.enabled, a.apiToken]), [
+      ["default", true, "tok-sg"],
+      ["eu", true, "tok-eu"],
+      ["spare", false, undefined],
+    ]);
+    assert.equal(accounts[2]!.apiUrl, DEFAULT_API_URL);
+  });
+
+  it("resolves accounts by id", () => {
+    assert.equal(resolveAccount(config)?.apiToken, "tok-sg");
+    assert.equal(resolveAccount(config, "eu")?.apiUrl, "wss://api.eu.example/api/v1/watch/connect");
+    assert.equal(resolveAccount(config, "nope"), null);
+  });
+
+  it("maps account keys to config paths", () => {
+    assert.equal(accountConfigPath("default", "apiToken"), "plugins.entries.clawatch.config.apiToken");
+    assert.equal(accountConfigPath("eu", "apiToken"), "plugins.entries.clawatch.config.accounts.eu.apiToken");
+  });
+});
+
+describe("parseImeiFromSessionKey", () => {
+  it("accepts plain, session-prefixed and new-conversation keys", () => {
+    assert.equal(parseImeiFromSessionKey(`clawatch:${CHILD}`), CHILD);
+    assert.equal(parseImeiFromSessionKey(`session:clawatch:${CHILD}`), CHILD);
+    assert.equal(parseImeiFromSessionKey(`clawatch:${CHILD}:m2k3j4`), CHILD);
+    assert.equal(parseImeiFromSessionKey("clawatch:123"), null);
+  });
+
+  it("honors a custom prefix and daily keys", () => {
+    assert.equal(parseImeiFromSessionKey(`wrist.${CHILD}:2026-10-19:m2k3j4`, "wrist."), CHILD);
+    assert.equal(parseImeiFromSessionKey(`wristx${CHILD}`, "wrist."), null);
+    assert.equal(parseImeiFromSessionKey(`clawatch:${CHILD}`, "wrist."), null);
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ClawatchConnector, AuthRejectedError, type ConnectorCallbacks } from "../src/connector.js";
+import { PLUGIN_VERSION } from "../src/config.js";
+import { FakeWebSocket } from "./fake-websocket.js";
+
+function makeCallbacks(overrides: Partial<ConnectorCallbacks> = {}) {
+  const calls = {
+    registered: [] as { imei: string; label?: string }[][],
+    errors: [] as { code?: string; message: string; id?: string }[],
+    unbound: [] as { imei: string; reason?: string }[],
+    messages: [] as unknown[][],
+    debug: [] as string[],
+    acks: [] as unknown[][],
+  };
+  const callbacks: ConnectorCallbacks = {
+    onRegistered: (watches) => calls.registered.push(watches),
+    onError: (code, message, id) => calls.errors.push({ code, message, id }),
+    onPong: () => {},
+    onUnbound: (imei, reason) => calls.unbound.push({ imei, reason }),
+    onMessage: (...args) => calls.messages.push(args),
+    onDebug: (msg) => calls.debug.push(msg),
+    onControlAck: (...args) => calls.acks.push(args),
+    ...overrides,
+  };
+  return { callbacks, calls };
+}
+
+describe("ClawatchConnector", () => {
+  beforeEach(() => {
+    FakeWebSocket.install();
+    mock.timers.enable({ apis: ["setTimeout", "setInterval"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  describe("registration", () => {
+    it("sends register on open and resolves on registered", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example/connect", "tok-1", callbacks);
+      const connected = connector.connect();
+      const ws = FakeWebSocket.latest();
+      assert.equal(ws.url, "wss://example/connect");
+
+      ws.open();
+      assert.deepEqual(ws.sent, [
+        { type: "register", token: "tok-1", client: "openclaw-clawatch", version: PLUGIN_VERSION },
+      ]);
+
+      ws.receive({ type: "registered", watches: [{ imei: "860000000000001", label: "Kid" }] });
+      await connected;
+      assert.deepEqual(calls.registered, [[{ imei: "860000000000001", label: "Kid" }]]);
+      assert.equal(connector.isConnected(), true);
+    });
+
+    it("starts pinging every 45s after registration", async () => {
+      const { callbacks } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      const connected = connector.connect();
+      const ws = FakeWebSocket.latest();
+      ws.register();
+      await connected;
+
+      mock.timers.tick(44999);
+      assert.equal(ws.sentOfType("ping").length, 0);
+      mock.timers.tick(1);
+      assert.equal(ws.sentOfType("ping").length, 1);
+      mock.timers.tick(45000);
+      assert.equal(ws.sentOfType("ping").length, 2);
+
+      connector.disconnect();
+      mock.timers.tick(45000);
+      assert.equal(ws.sentOfType("ping").length, 2);
+    });
+
+    it("keeps the wrapped onRegistered working for later registered frames", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      const connected = connector.connect();
+      const ws = FakeWebSocket.latest();
+      ws.register([{ imei: "860000000000001" }]);
+      await connected;
+
+      ws.receive({ type: "registered", watches: [] });
+      assert.equal(calls.registered.length, 2);
+      assert.deepEqual(calls.registered[1], []);
+    });
+  });
+
+  describe("auth failures", () => {
+    for (const code of ["invalid_token", "unauthorized"]) {
+      it(`rejects connect() on ${code}`, async () => {
+        const { callbacks, calls } = makeCallbacks();
+        const connector = new ClawatchConnector("wss://example", "bad", callbacks);
+        const connected = connector.connect();
+        const ws = FakeWebSocket.latest();
+        ws.open();
+        ws.receive({ type: "error", code, message: "Token expired" });
+
+        await assert.rejects(connected, (err) => err instanceof AuthRejectedError && err.code === code && /Token expired/.test(err.message));
+        assert.deepEqual(calls.errors, [{ code, message: "Token expired", id: undefined }]);
+      });
+    }
+
+    it("does not reject connect() on other error codes", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      const connected = connector.connect();
+      const ws = FakeWebSocket.latest();
+      ws.open();
+      ws.receive({ type: "error", code: "rate_limited", message: "slow down" });
+      ws.receive({ type: "registered", watches: [] });
+
+      await connected;
+      assert.equal(calls.errors[0]?.code, "rate_limited");
+    });
+  });
+
+  describe("connect timeout", () => {
+    it("closes and rejects after 15s stuck in CONNECTING", async () => {
+      const { callbacks } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      const connected = connector.connect();
+      const ws = FakeWebSocket.latest();
+
+      mock.timers.tick(14999);
+      assert.equal(ws.readyState, FakeWebSocket.CONNECTING);
+      mock.timers.tick(1);
+      assert.equal(ws.readyState, FakeWebSocket.CLOSED);
+      await assert.rejects(connected, /WebSocket connection timeout/);
+    });
+
+    it("keeps the timeout running when an invalid frame arrives first", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      const connected = connector.connect();
+      const ws = FakeWebSocket.latest();
+      ws.receive("{not json");
+      ws.receive({ type: "registered" });
+      assert.equal(calls.errors.length, 2);
+      mock.timers.tick(15000);
+      assert.equal(ws.readyState, FakeWebSocket.CLOSED);
+      await assert.rejects(connected, /WebSocket connection timeout/);
+      assert.equal(calls.registered.length, 0);
+    });
+
+    it("does not time out once the socket has opened", async () => {
+      const { callbacks } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      const connected = connector.connect();
+      const ws = FakeWebSocket.latest();
+      ws.open();
+      mock.timers.tick(20000);
+      assert.equal(ws.readyState, FakeWebSocket.OPEN);
+      ws.receive({ type: "registered", watches: [] });
+      await connected;
+    });
+  });
+
+  describe("reconnect backoff", () => {
+    it("doubles the delay on each failed attempt and caps at 5 minutes", () => {
+      let reconnects = 0;
+      const { callbacks } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", {
+        ...callbacks,
+        onReconnect: () => {
+          reconnects++;
+          connector.connect().catch(() => {});
+        },
+      });
+      connector.connect().catch(() => {});
+
+      const expected = [1000, 2000, 4000, 8000, 16000, 32000, 64000, 128000, 256000, 300000, 300000];
+      for (const [i, delay] of expected.entries()) {
+        FakeWebSocket.latest().fail();
+        mock.timers.tick(delay - 1);
+        assert.equal(reconnects, i, `attempt ${i + 1} fired early`);
+        mock.timers.tick(1);
+        assert.equal(reconnects, i + 1, `attempt ${i + 1} did not fire after ${delay}ms`);
+      }
+    });
+
+    it("resets the backoff after a successful open", () => {
+      let reconnects = 0;
+      const { callbacks } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", {
+        ...callbacks,
+        onReconnect: () => {
+          reconnects++;
+          connector.connect().catch(() => {});
+        },
+      });
+      connector.connect().catch(() => {});
+      FakeWebSocket.latest().fail();
+      mock.timers.tick(1000);
+      FakeWebSocket.latest().fail();
+      mock.timers.tick(2000);
+      assert.equal(reconnects, 2);
+
+      const ws = FakeWebSocket.latest();
+      ws.register();
+      ws.drop();
+      mock.timers.tick(1000);
+      assert.equal(reconnects, 3);
+    });
+
+    it("does not schedule a reconnect without onReconnect", () => {
+      const { callbacks } = makeCallbacks();
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      connector.connect().catch(() => {});
+      FakeWebSocket.latest().fail();
+      mock.timers.tick(600000);
+      assert.equal(FakeWebSocket.instances.length, 1);
+    });
+  });
+
+  describe("frames", () => {
+    async function connected(callbacks: ConnectorCallbacks) {
+      const connector = new ClawatchConnector("wss://example", "tok", callbacks);
+      const p = connector.connect();
+      const ws = FakeWebSocket.latest();
+      ws.register();
+      await p;
+      return { connector, ws };
+    }
+
+    it("dispatches unbound", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const { ws } = await connected(callbacks);
+      ws.receive({ type: "unbound", imei: "860000000000001", reason: "reset" });
+      assert.deepEqual(calls.unbound, [{ imei: "860000000000001", reason: "reset" }]);
+    });
+
+    it("dispatches message with all fields", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const { ws } = await connected(callbacks);
+      const context = { battery: { value: 80 } };
+      ws.receive({ type: "message", id: "m1", imei: "860000000000001", text: "hi", timestamp: 5, isCommand: true, context });
+      assert.deepEqual(calls.messages, [["m1", "860000000000001", "hi", 5, true, context]]);
+    });
+
+    it("dispatches control_ack with result", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const { ws } = await connected(callbacks);
+      ws.receive({ type: "control_ack", id: "c1", ok: true, result: { intervalSec: 60 } });
+      assert.deepEqual(calls.acks, [["c1", true, { intervalSec: 60 }, undefined]]);
+    });
+
+    it("reports invalid JSON as invalid_frame", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const { ws } = await connected(callbacks);
+      ws.receive("{not json");
+      assert.equal(calls.errors[0]?.code, "invalid_frame");
+    });
+
+    it("drops an invalid message frame and answers it with an error frame", async () => {
+      const invalid: string[] = [];
+      const { callbacks, calls } = makeCallbacks({ onInvalidFrame: (err) => invalid.push(err.message) });
+      const { ws } = await connected(callbacks);
+      ws.receive({ type: "message", id: "m1", imei: "860000000000001", text: null });
+
+      assert.equal(calls.messages.length, 0);
+      assert.equal(invalid.length, 1);
+      assert.equal(calls.errors[0]?.code, "invalid_frame");
+      assert.deepEqual(ws.sentOfType("error"), [
+        { type: "error", id: "m1", code: "invalid_frame", message: "text must be a string" },
+      ]);
+    });
+
+    it("counts invalid non-message frames without answering", async () => {
+      const invalid: string[] = [];
+      const { callbacks, calls } = makeCallbacks({ onInvalidFrame: (err) => invalid.push(err.message) });
+      const { ws } = await connected(callbacks);
+      ws.receive({ type: "unbound" });
+      assert.equal(calls.unbound.length, 0);
+      assert.equal(invalid.length, 1);
+      assert.equal(ws.sentOfType("error").length, 0);
+    });
+
+    it("logs unknown frame types", async () => {
+      const { callbacks, calls } = makeCallbacks();
+      const { ws } = await connected(callbacks);
+      ws.receive({ type: "mystery" });
+      assert.ok(calls.debug.some((m) => m.includes("unknown frame type")));
+    });
+
+    it("only sends while open", async () => {
+      const { callbacks } = makeCallbacks();
+      const { connector, ws } = await connected(callbacks);
+      connector.send({ type: "push" });
+      ws.readyState = FakeWebSocket.CLOSED;
+      connector.send({ type: "push" });
+      assert.equal(ws.sentOfType("push").length, 1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatAge, formatContext, formatLocalTime } from "../src/context.js";
+
+// 2026-03-10 06:00 UTC = 14:00 in Singapore
+const NOW = Date.UTC(2026, 2, 10, 6, 0);
+const MIN = 60 * 1000;
+const TZ = "Asia/Singapore";
+
+describe("formatContext", () => {
+  it("shows each reading's age and local time", () => {
+    const text = formatContext(
+      { health: { heart_rate: { value: 72, received_at: NOW - 3 * MIN } }, battery: { value: 80 } },
+      { now: NOW, timeZone: TZ }
+    );
+    assert.match(text, /- Local time now: Tue, Mar 10, 2026, 14:00 \(Asia\/Singapore\)/);
+    assert.match(text, /- Heart rate: 72 bpm, 3 min ago \(13:57\)$/m);
+    // No received_at: no age
+    assert.match(text, /- Battery: 80%$/m);
+  });
+
+  it("accepts received_at in unix seconds", () => {
+    const text = formatContext({ steps: { value: 1200, received_at: (NOW - 10 * MIN) / 1000 } }, { now: NOW, timeZone: TZ });
+    assert.match(text, /Steps today: 1200, 10 min ago \(13:50\)/);
+  });
+
+  it("marks readings past their max age as stale", () => {
+    const text = formatContext(
+      {
+        health: {
+          heart_rate: { value: 72, received_at: NOW - 6 * 60 * MIN },
+          oxygen: { value: 97, received_at: NOW - 20 * MIN },
+        },
+      },
+      { now: NOW, timeZone: TZ }
+    );
+    assert.match(text, /- Heart rate: 72 bpm, 6 h ago \(08:00\) \[stale\]/);
+    assert.doesNotMatch(text, /Blood oxygen.*\[stale\]/);
+  });
+
+  it("drops stale readings when asked, honoring per-field overrides", () => {
+    const ctx = {
+      health: {
+        heart_rate: { value: 72, received_at: NOW - 45 * MIN },
+        oxygen: { value: 97, received_at: NOW - 20 * MIN },
+      },
+    };
+    const text = formatContext(ctx, { now: NOW, stale: "drop", maxAgeMin: { oxygen: 10 } });
+    assert.doesNotMatch(text, /Heart rate/);
+    assert.doesNotMatch(text, /Blood oxygen/);
+    assert.equal(formatContext(ctx, { now: NOW, stale: "drop", maxAgeMin: { oxygen: 10, heart_rate: 60 } }).includes("Heart rate"), true);
+  });
+
+  it("applies the profile's units and shared fields", () => {
+    const ctx = { location: { lat: 1.3, lng: 103.8 }, steps: { value: 900 }, health: { temperature: { value: 37 } } };
+    const text = formatContext(ctx, { now: NOW, units: "imperial", fields: ["steps", "temperature"] });
+    assert.match(text, /- Temperature: 98\.6°F$/m);
+    assert.match(text, /- Steps today: 900$/m);
+    assert.doesNotMatch(text, /Location/);
+  });
+
+  it("returns nothing when every reading was dropped", () => {
+    assert.equal(formatContext({ battery: { value: 5, received_at: NOW - 5 * 60 * MIN } }, { now: NOW, stale: "drop" }), "");
+  });
+
+  it("formats ages and dates across days", () => {
+    assert.equal(formatAge(-5000), "just now");
+    assert.equal(formatAge(90 * MIN), "1 h ago");
+    assert.equal(formatAge(3 * 24 * 60 * MIN), "3 days ago");
+    assert.equal(formatLocalTime(NOW - 24 * 60 * MIN, NOW, TZ), "Mar 9 14:00");
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Minimal stand-in for the global WebSocket used by ClawatchConnector.
+ * Tests drive the server side with open(), receive(), drop() and fail().
+ */
+export class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  /** Every socket created since the last install(), oldest first. */
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readyState = FakeWebSocket.CONNECTING;
+  sent: Record<string, unknown>[] = [];
+
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  static install(): void {
+    FakeWebSocket.instances = [];
+    (globalThis as { WebSocket: unknown }).WebSocket = FakeWebSocket;
+  }
+
+  static latest(): FakeWebSocket {
+    const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    if (!ws) throw new Error("No FakeWebSocket created");
+    return ws;
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data) as Record<string, unknown>);
+  }
+
+  close(): void {
+    if (this.readyState === FakeWebSocket.CLOSED) return;
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({});
+  }
+
+  /** Server accepted the connection. */
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  /** Server sends a frame (objects are JSON-encoded, strings are sent raw). */
+  receive(frame: object | string): void {
+    this.onmessage?.({ data: typeof frame === "string" ? frame : JSON.stringify(frame) });
+  }
+
+  /** Open and answer the register frame. */
+  register(watches: { imei: string; label?: string }[] = []): void {
+    this.open();
+    this.receive({ type: "registered", watches });
+  }
+
+  /** Server closed the connection. */
+  drop(): void {
+    this.close();
+  }
+
+  /** Network error: error event followed by close, like browsers and undici. */
+  fail(): void {
+    this.onerror?.({});
+    this.close();
+  }
+
+  sentOfType(type: string): Record<string, unknown>[] {
+    return this.sent.filter((f) => f.type === type);
+  }
+}
@@ -0,0 +1,290 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { getEventListeners } from "node:events";
+import { chatCompletion, invokeTool, GatewayError, type GatewayConfig } from "../src/gateway.js";
+
+const CONFIG: GatewayConfig = {
+  baseUrl: "http://127.0.0.1:18789/",
+  token: "gw-token",
+  agentId: "main",
+};
+
+type FetchCall = { url: string; init: RequestInit };
+
+/** SSE response whose body arrives in exactly the given chunks. */
+function sseResponse(chunks: string[], status = 200): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status, headers: { "Content-Type": "text/event-stream" } });
+}
+
+/** A request that never answers until aborted, like a hung Gateway. */
+function hang(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+  });
+}
+
+/** SSE response that sends `chunks` and then stalls until the request is aborted. */
+function stalledResponse(init: RequestInit, chunks: string[] = []): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      init.signal?.addEventListener("abort", () => controller.error(new DOMException("aborted", "AbortError")));
+    },
+  });
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+function delta(content: string): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+}
+
+describe("chatCompletion", () => {
+  const originalFetch = globalThis.fetch;
+  let calls: FetchCall[];
+  let responses: Array<Response | Error | ((init: RequestInit) => Response | Promise<Response>)>;
+
+  beforeEach(() => {
+    calls = [];
+    responses = [];
+    globalThis.fetch = (async (url: string | URL | Request, init?: RequestInit) => {
+      calls.push({ url: String(url), init: init ?? {} });
+      const next = responses.shift();
+      if (!next) throw new Error("unexpected fetch");
+      if (next instanceof Error) throw next;
+      if (typeof next === "function") return next(init ?? {});
+      return next;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("SSE parsing", () => {
+    it("concatenates content deltas up to [DONE]", async () => {
+      responses.push(sseResponse([delta("Hello"), delta(", world"), "data: [DONE]\n\n"]));
+      const reply = await chatCompletion(CONFIG, "clawatch:1", "hi");
+      assert.equal(reply, "Hello, world");
+    });
+
+    it("reassembles data lines split across chunks", async () => {
+      const line = delta("split across reads");
+      const mid = Math.floor(line.length / 2);
+      responses.push(sseResponse([line.slice(0, 7), line.slice(7, mid), line.slice(mid), delta("!")]));
+      const reply = await chatCompletion(CONFIG, "clawatch:1", "hi");
+      assert.equal(reply, "split across reads!");
+    });
+
+    it("skips invalid JSON, comments and non-data lines", async () => {
+      responses.push(
+        sseResponse([
+          ": keep-alive\n",
+          "event: message\n",
+          "data: {not json}\n",
+          delta("ok"),
+          `data: ${JSON.stringify({ choices: [{ delta: {} }] })}\n`,
+          "data: [DONE]\n",
+        ])
+      );
+      const reply = await chatCompletion(CONFIG, "clawatch:1", "hi");
+      assert.equal(reply, "ok");
+    });
+
+    it("reports each delta through onDelta", async () => {
+      responses.push(sseResponse([delta("a"), delta("b"), "data: [DONE]\n"]));
+      const seen: string[] = [];
+      await chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { onDelta: (d) => seen.push(d) });
+      assert.deepEqual(seen, ["a", "b"]);
+    });
+  });
+
+  describe("request", () => {
+    it("sends session and agent headers with the TTS system prompt", async () => {
+      responses.push(sseResponse(["data: [DONE]\n"]));
+      await chatCompletion({ ...CONFIG, ttsSystemPrompt: "Be brief." }, "clawatch:860000000000001", "hi", {
+        battery: { value: 42 },
+      });
+      const { url, init } = calls[0]!;
+      assert.equal(url, "http://127.0.0.1:18789/api/v1/chat/completions");
+      const headers = init.headers as Record<string, string>;
+      assert.equal(headers.Authorization, "Bearer gw-token");
+      assert.equal(headers["x-openclaw-session-key"], "clawatch:860000000000001");
+      assert.equal(headers["x-openclaw-agent-id"], "main");
+      const body = JSON.parse(String(init.body)) as { stream: boolean; messages: { role: string; content: string }[] };
+      assert.equal(body.stream, true);
+      assert.deepEqual(body.messages[0], { role: "system", content: "Be brief." });
+      assert.match(body.messages[1]!.content, /Battery: 42%/);
+      assert.deepEqual(body.messages[2], { role: "user", content: "hi" });
+    });
+
+    it("asks for the profile's locale in the system prompt", async () => {
+      responses.push(sseResponse(["data: [DONE]\n"]));
+      await chatCompletion({ ...CONFIG, ttsSystemPrompt: "Be brief.", locale: "zh-CN" }, "clawatch:1", "hi");
+      const body = JSON.parse(String(calls[0]!.init.body)) as { messages: { role: string; content: string }[] };
+      assert.equal(body.messages[0]!.content, "Be brief.\n\nAlways reply in the language and conventions of locale zh-CN.");
+    });
+
+    it("shows the current place instead of coordinates", async () => {
+      responses.push(sseResponse(["data: [DONE]\n"]));
+      await chatCompletion(CONFIG, "clawatch:1", "where am I?", { location: { lat: 1.3, lng: 103.8 } }, {
+        contextOptions: { placeName: "Home" },
+      });
+      const body = JSON.parse(String(calls[0]!.init.body)) as { messages: { role: string; content: string }[] };
+      const physical = body.messages.find((m) => m.content.includes("physical world state"))!;
+      assert.match(physical.content, /- Location: at Home/);
+      assert.doesNotMatch(physical.content, /103\.8/);
+    });
+
+    it("omits the system prompt when ttsSystemPrompt is empty", async () => {
+      responses.push(sseResponse(["data: [DONE]\n"]));
+      await chatCompletion({ ...CONFIG, ttsSystemPrompt: "" }, "clawatch:1", "hi");
+      const body = JSON.parse(String(calls[0]!.init.body)) as { messages: { role: string }[] };
+      assert.deepEqual(body.messages.map((m) => m.role), ["user"]);
+    });
+  });
+
+  describe("endpoint fallback", () => {
+    it("falls back to /v1/chat/completions on 405", async () => {
+      responses.push(new Response("Method Not Allowed", { status: 405 }));
+      responses.push(sseResponse([delta("fallback"), "data: [DONE]\n"]));
+      const reply = await chatCompletion(CONFIG, "clawatch:1", "hi");
+      assert.equal(reply, "fallback");
+      assert.deepEqual(calls.map((c) => c.url), [
+        "http://127.0.0.1:18789/api/v1/chat/completions",
+        "http://127.0.0.1:18789/v1/chat/completions",
+      ]);
+    });
+
+    it("throws the last 405 when both paths return 405", async () => {
+      responses.push(new Response("nope", { status: 405 }));
+      responses.push(new Response("nope", { status: 405 }));
+      await assert.rejects(chatCompletion(CONFIG, "clawatch:1", "hi"), /Gateway error 405 for .*\/v1\/chat\/completions/);
+      assert.equal(calls.length, 2);
+    });
+
+    it("throws immediately on other HTTP errors", async () => {
+      responses.push(new Response("boom", { status: 500 }));
+      await assert.rejects(chatCompletion(CONFIG, "clawatch:1", "hi"), /Gateway error 500/);
+      assert.equal(calls.length, 1);
+    });
+
+    it("propagates network errors", async () => {
+      responses.push(new TypeError("fetch failed"));
+      await assert.rejects(chatCompletion(CONFIG, "clawatch:1", "hi"), /fetch failed/);
+    });
+  });
+
+  describe("timeouts and retries", () => {
+    it("fails with a timeout when no response headers arrive", async () => {
+      responses.push(hang);
+      await assert.rejects(
+        chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { timeouts: { connectMs: 20 } }),
+        (err: unknown) => err instanceof GatewayError && err.kind === "timeout" && /connect timed out/.test(err.message)
+      );
+    });
+
+    it("applies the connect timeout to the 405 fallback path too", async () => {
+      responses.push(new Response("Method Not Allowed", { status: 405 }));
+      responses.push(hang);
+      await assert.rejects(
+        chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { timeouts: { connectMs: 20 } }),
+        /connect timed out/
+      );
+      assert.equal(calls.length, 2);
+    });
+
+    it("fails with a timeout when the agent never starts replying", async () => {
+      responses.push((init) => stalledResponse(init, [": keep-alive\n"]));
+      await assert.rejects(
+        chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { timeouts: { firstTokenMs: 20 } }),
+        /first token timed out/
+      );
+    });
+
+    it("retries transient failures before anything has streamed", async () => {
+      responses.push(new TypeError("fetch failed"));
+      responses.push(new Response("busy", { status: 503 }));
+      responses.push(sseResponse([delta("third time lucky"), "data: [DONE]\n"]));
+      const reply = await chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { retries: 2, retryDelayMs: 1 });
+      assert.equal(reply, "third time lucky");
+      assert.equal(calls.length, 3);
+    });
+
+    it("never resends a turn the Gateway accepted", async () => {
+      responses.push((init) => stalledResponse(init, [": keep-alive\n"]));
+      await assert.rejects(
+        chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { timeouts: { firstTokenMs: 20 }, retries: 2, retryDelayMs: 1 }),
+        (err: unknown) => err instanceof GatewayError && /first token timed out/.test(err.message) && !err.retryable
+      );
+      assert.equal(calls.length, 1);
+    });
+
+    it("retries a connect timeout", async () => {
+      responses.push(hang);
+      responses.push(sseResponse([delta("ok"), "data: [DONE]\n"]));
+      const reply = await chatCompletion(CONFIG, "clawatch:1", "hi", undefined, {
+        timeouts: { connectMs: 20 },
+        retries: 1,
+        retryDelayMs: 1,
+      });
+      assert.equal(reply, "ok");
+      assert.equal(calls.length, 2);
+    });
+
+    it("leaves no abort listeners behind after retry delays", async () => {
+      const controller = new AbortController();
+      responses.push(new TypeError("fetch failed"));
+      responses.push(sseResponse([delta("ok"), "data: [DONE]\n"]));
+      await chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { retries: 1, retryDelayMs: 1, signal: controller.signal });
+      assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+    });
+
+    it("does not retry once part of the reply has streamed", async () => {
+      responses.push((init) => stalledResponse(init, [delta("Half a")]));
+      const seen: string[] = [];
+      await assert.rejects(
+        chatCompletion(CONFIG, "clawatch:1", "hi", undefined, {
+          timeouts: { totalMs: 30 },
+          retries: 2,
+          retryDelayMs: 1,
+          onDelta: (d) => seen.push(d),
+        }),
+        /reply timed out/
+      );
+      assert.equal(calls.length, 1);
+      assert.deepEqual(seen, ["Half a"]);
+    });
+
+    it("does not retry agent errors", async () => {
+      responses.push(new Response("boom", { status: 500 }));
+      await assert.rejects(
+        chatCompletion(CONFIG, "clawatch:1", "hi", undefined, { retries: 2, retryDelayMs: 1 }),
+        (err: unknown) => err instanceof GatewayError && err.status === 500 && !err.transient
+      );
+      assert.equal(calls.length, 1);
+    });
+  });
+
+  describe("invokeTool", () => {
+    it("posts the tool call and returns its result", async () => {
+      responses.push(Response.json({ ok: true, result: { content: [{ type: "text", text: "on" }] } }));
+      const result = await invokeTool(CONFIG, "clawatch:1", "home_lights", { on: true });
+      assert.deepEqual(result, { content: [{ type: "text", text: "on" }] });
+      assert.equal(calls[0]!.url, "http://127.0.0.1:18789/tools/invoke");
+      assert.deepEqual(JSON.parse(String(calls[0]!.init.body)), { tool: "home_lights", args: { on: true }, sessionKey: "clawatch:1" });
+    });
+
+    it("rejects with the Gateway's error", async () => {
+      responses.push(Response.json({ ok: false, error: { message: "Tool not allowed" } }, { status: 403 }));
+      await assert.rejects(invokeTool(CONFIG, "clawatch:1", "exec"), /Tool exec failed \(403\): Tool not allowed/);
+    });
+  });
+});
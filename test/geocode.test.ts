@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createCachedGeocoder,
+  createDefaultGeocoder,
+  createOfflineGeocoder,
+  formatGeocodeResult,
+  loadPlaceDataset,
+  type ReverseGeocoder,
+} from "../src/geocode.js";
+import { formatContext } from "../src/context.js";
+
+describe("geocode", () => {
+  it("prefers the most specific matching place", async () => {
+    const geocoder = createOfflineGeocoder([
+      { name: "Singapore", country: "Singapore", lat: 1.3521, lng: 103.8198, radiusM: 25000 },
+      { name: "Orchard Road", country: "Singapore", lat: 1.3048, lng: 103.8318, radiusM: 1200 },
+    ]);
+    assert.deepEqual(await geocoder.reverse(1.3045, 103.832), { name: "Orchard Road", country: "Singapore" });
+    assert.deepEqual(await geocoder.reverse(1.36, 103.82), { name: "Singapore", country: "Singapore" });
+    assert.equal(await geocoder.reverse(0, 0), null);
+  });
+
+  it("falls back to the country for points outside every place", async () => {
+    const geocoder = createDefaultGeocoder({}, () => {})!;
+    // Ipoh is well outside the bundled Malaysian cities
+    assert.deepEqual(await geocoder.reverse(4.5975, 101.0901), { name: "Malaysia" });
+    // Singapore's box sits inside Malaysia's; the smaller one wins
+    assert.deepEqual(await geocoder.reverse(1.2, 103.62), { name: "Singapore" });
+    assert.equal(await geocoder.reverse(0, -150), null);
+  });
+
+  it("formats results, naming a city-state once", () => {
+    assert.equal(formatGeocodeResult({ name: "Orchard Road", country: "Singapore" }), "Orchard Road, Singapore");
+    assert.equal(formatGeocodeResult({ name: "Singapore", country: "Singapore" }), "Singapore");
+    assert.equal(formatGeocodeResult({ name: "Home" }), "Home");
+  });
+
+  it("caches per rounded coordinate, including misses", async () => {
+    let calls = 0;
+    const provider: ReverseGeocoder = {
+      async reverse() {
+        calls++;
+        return null;
+      },
+    };
+    const geocoder = createCachedGeocoder(provider);
+    await geocoder.reverse(1.30001, 103.80001);
+    await geocoder.reverse(1.30004, 103.80002);
+    assert.equal(calls, 1);
+    await geocoder.reverse(1.302, 103.8);
+    assert.equal(calls, 2);
+  });
+
+  it("uses saved places and the user dataset before bundled cities", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "clawatch-geo-"));
+    try {
+      const file = join(dir, "places.json");
+      writeFileSync(file, JSON.stringify([{ name: "Grandma's", lat: 1.36, lng: 103.82, radiusM: 300 }, { name: "bad" }]));
+      assert.equal(loadPlaceDataset(file).length, 1);
+
+      const geocoder = createDefaultGeocoder(
+        { geocodeDatasetPath: file, geofences: [{ name: "Home", lat: 1.3, lng: 103.8, radiusM: 100 }] },
+        () => {}
+      )!;
+      // 300 m from Home: outside the fence but within the saved-place margin
+      assert.deepEqual(await geocoder.reverse(1.3027, 103.8), { name: "Home", country: undefined });
+      assert.deepEqual(await geocoder.reverse(1.3601, 103.8201), { name: "Grandma's", country: undefined });
+      assert.equal((await geocoder.reverse(1.3048, 103.8318))?.name, "Orchard Road");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports a bad dataset and can be turned off", () => {
+    const errors: string[] = [];
+    assert.ok(createDefaultGeocoder({ geocodeDatasetPath: "/nonexistent/places.json" }, (msg) => errors.push(msg)));
+    assert.equal(errors.length, 1);
+    assert.equal(createDefaultGeocoder({ geocoder: "off" }, () => {}), null);
+  });
+
+  it("renders the location line", () => {
+    const ctx = { location: { lat: 1.3048, lng: 103.8318 } };
+    assert.match(formatContext(ctx, { locationName: "Orchard Road, Singapore" }), /- Location: near Orchard Road, Singapore \(1\.30°N, 103\.83°E\)/);
+    assert.match(formatContext(ctx), /- Location: 1\.3048°N, 103\.8318°E/);
+    assert.match(formatContext(ctx, { placeName: "Home", locationName: "x" }), /- Location: at Home$/m);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  containsPoint,
+  createGeofenceTracker,
+  distanceMeters,
+  parseGeofences,
+  parsePolygonArg,
+} from "../src/geofence.js";
+
+const IMEI = "860000000000001";
+const OTHER_IMEI = "860000000000002";
+// ~0.0009° latitude ≈ 100 m
+const HOME = { name: "Home", lat: 1.3, lng: 103.8, radiusM: 100 };
+const SCHOOL = {
+  name: "School",
+  polygon: [
+    { lat: 1.31, lng: 103.81 },
+    { lat: 1.31, lng: 103.82 },
+    { lat: 1.32, lng: 103.82 },
+    { lat: 1.32, lng: 103.81 },
+  ],
+};
+
+describe("geofence", () => {
+  it("measures great-circle distance", () => {
+    const d = distanceMeters(1.3, 103.8, 1.3009, 103.8);
+    assert.ok(Math.abs(d - 100) < 1, `got ${d}`);
+  });
+
+  it("tests circles and polygons", () => {
+    const [home, school] = parseGeofences([HOME, SCHOOL]);
+    assert.equal(containsPoint(home!, 1.3005, 103.8), true);
+    assert.equal(containsPoint(home!, 1.3015, 103.8), false);
+    assert.equal(containsPoint(school!, 1.315, 103.815), true);
+    assert.equal(containsPoint(school!, 1.325, 103.815), false);
+  });
+
+  it("parses config and drops unusable fences", () => {
+    const fences = parseGeofences([
+      HOME,
+      { name: "NoRadius", lat: 1, lng: 2 },
+      { name: "Triangle?", polygon: [{ lat: 1, lng: 2 }, { lat: 1, lng: 3 }] },
+      { lat: 1, lng: 2, radiusM: 10 },
+      { name: "Clinic", lat: 95, lng: 2, radiusM: 10 },
+      { ...SCHOOL, imei: IMEI, onEnter: [{ type: "channel", channel: "telegram", to: "123" }] },
+    ]);
+    assert.deepEqual(fences.map((f) => f.name), ["Home", "School"]);
+    assert.deepEqual(fences[0]!.onEnter, []);
+    assert.equal(fences[1]!.imei, IMEI);
+    assert.deepEqual(fences[1]!.onEnter, [{ type: "channel", channel: "telegram", to: "123", message: undefined }]);
+  });
+
+  it("parses CLI polygons", () => {
+    assert.deepEqual(parsePolygonArg("1,2; 1,3;2,3"), [
+      { lat: 1, lng: 2 },
+      { lat: 1, lng: 3 },
+      { lat: 2, lng: 3 },
+    ]);
+    assert.equal(parsePolygonArg("1,2;1,3"), null);
+    assert.equal(parsePolygonArg("1,2;1,x;2,3"), null);
+  });
+
+  describe("tracker", () => {
+    it("uses the first fix as a baseline without events", () => {
+      const tracker = createGeofenceTracker(parseGeofences([HOME]));
+      assert.deepEqual(tracker.update(IMEI, 1.3, 103.8), []);
+      assert.equal(tracker.currentPlace(IMEI), "Home");
+    });
+
+    it("emits leave and enter on crossings", () => {
+      const tracker = createGeofenceTracker(parseGeofences([HOME, SCHOOL]));
+      tracker.update(IMEI, 1.3, 103.8);
+
+      const left = tracker.update(IMEI, 1.315, 103.815);
+      assert.deepEqual(left.map((t) => [t.event, t.fence.name]), [
+        ["leave", "Home"],
+        ["enter", "School"],
+      ]);
+      assert.equal(tracker.currentPlace(IMEI), "School");
+
+      assert.deepEqual(tracker.update(IMEI, 1.316, 103.816), []);
+    });
+
+    it("does not flap on GPS jitter just outside a circle", () => {
+      const tracker = createGeofenceTracker(parseGeofences([HOME]));
+      tracker.update(IMEI, 1.3, 103.8);
+      // ~111 m from center: past the radius but inside the leave margin
+      assert.deepEqual(tracker.update(IMEI, 1.3010, 103.8), []);
+      assert.equal(tracker.update(IMEI, 1.3020, 103.8)[0]?.event, "leave");
+      // Re-entering needs the real radius
+      assert.deepEqual(tracker.update(IMEI, 1.3010, 103.8), []);
+      assert.equal(tracker.update(IMEI, 1.3005, 103.8)[0]?.event, "enter");
+    });
+
+    it("only applies a fence to its own watch", () => {
+      const tracker = createGeofenceTracker(parseGeofences([{ ...HOME, imei: IMEI }]));
+      tracker.update(OTHER_IMEI, 1.3015, 103.8);
+      assert.deepEqual(tracker.update(OTHER_IMEI, 1.3, 103.8), []);
+      assert.equal(tracker.currentPlace(OTHER_IMEI), undefined);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spokenPhrase } from "../src/locale.js";
+
+describe("spokenPhrase", () => {
+  it("falls back from region to language to English", () => {
+    assert.equal(spokenPhrase("stopped", "de-AT"), "Okay, gestoppt.");
+    assert.equal(spokenPhrase("stopped", "zh_CN"), "好的，已停止。");
+    assert.equal(spokenPhrase("stopped", "sw-KE"), "Okay, stopped.");
+    assert.equal(spokenPhrase("stopped"), "Okay, stopped.");
+  });
+
+  it("uses traditional Chinese for Taiwan, Hong Kong and Hant", () => {
+    const traditional = "現在連不上你的助理，請稍後再試。";
+    assert.equal(spokenPhrase("unreachable", "zh-TW"), traditional);
+    assert.equal(spokenPhrase("unreachable", "zh-HK"), traditional);
+    assert.equal(spokenPhrase("unreachable", "zh-Hant-SG"), traditional);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeMedia, mediaDeliveryText, mediaKind, mediaName, mediaSummarySessionKey } from "../src/media.js";
+import { parseImeiFromSessionKey } from "../src/config.js";
+
+describe("mediaKind", () => {
+  it("classifies by extension, MIME type and web page", () => {
+    assert.equal(mediaKind("https://cdn.example/photos/IMG_2024.JPG?w=800"), "image");
+    assert.equal(mediaKind("/tmp/voice-note.m4a"), "audio");
+    assert.equal(mediaKind("https://example.com/report.pdf"), "document");
+    assert.equal(mediaKind("https://example.com/backup.zip"), "file");
+    assert.equal(mediaKind("data:video/mp4;base64,AAAA"), "video");
+    assert.equal(mediaKind("https://news.example.com/story/123"), "link");
+    assert.equal(mediaKind("https://example.com/index.html"), "link");
+  });
+});
+
+describe("describeMedia", () => {
+  it("names the file, or the site for a link", () => {
+    assert.equal(mediaName("https://cdn.example/photos/beach_day-2.jpg"), "beach day 2");
+    assert.equal(mediaName("data:image/png;base64,AAAA"), null);
+    assert.equal(describeMedia("https://cdn.example/photos/beach_day.jpg"), "Sent you a photo: beach day.");
+    assert.equal(describeMedia("https://www.example.com/story/123"), "Sent you a link: example.com.");
+    assert.equal(describeMedia("data:image/png;base64,AAAA", "zh-CN"), "发来一张照片。");
+  });
+
+  it("puts the caption first and the summary last", () => {
+    assert.equal(
+      mediaDeliveryText({ mediaUrl: "/tmp/menu.pdf", caption: "Tonight's menu", summary: "Three courses, fish main." }),
+      "Tonight's menu. Sent you a document: menu. Three courses, fish main."
+    );
+  });
+});
+
+describe("mediaSummarySessionKey", () => {
+  it("never parses as the watch's session", () => {
+    const key = mediaSummarySessionKey("clawatch:", "860000000000001");
+    assert.equal(key, "clawatch:media:860000000000001");
+    assert.equal(parseImeiFromSessionKey(key, "clawatch:"), null);
+    assert.equal(parseImeiFromSessionKey(`session:${key}`, "clawatch:"), null);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createDndStore, parseDuration, parseQuietHours, quietUntil, DND_FILE } from "../src/quiet.js";
+
+const IMEI = "860000000000001";
+// Monday 2026-10-19, UTC
+const at = (hour: number, minute = 0, day = 19) => Date.UTC(2026, 9, day, hour, minute);
+
+describe("parseQuietHours", () => {
+  it("skips windows with bad times and unknown days", () => {
+    assert.deepEqual(
+      parseQuietHours([
+        { start: "22:00", end: "07:00", days: ["fri", "someday"] },
+        { start: "25:00", end: "07:00" },
+        { start: "13:00" },
+      ]),
+      [{ start: "22:00", end: "07:00", days: ["fri"] }]
+    );
+    assert.equal(parseQuietHours("22:00-07:00"), undefined);
+  });
+});
+
+describe("quietUntil", () => {
+  const night = [{ start: "22:00", end: "07:00" }];
+
+  it("covers a window across midnight", () => {
+    assert.equal(quietUntil({ windows: night, timeZone: "UTC" }, at(23, 30)), at(7, 0, 20));
+    assert.equal(quietUntil({ windows: night, timeZone: "UTC" }, at(6, 15)), at(7));
+    assert.equal(quietUntil({ windows: night, timeZone: "UTC" }, at(12)), null);
+  });
+
+  it("uses the wearer's time zone", () => {
+    // 15:00 UTC is 23:00 in Singapore
+    assert.equal(quietUntil({ windows: night, timeZone: "Asia/Singapore" }, at(15)), at(23));
+  });
+
+  it("only starts windows on their days", () => {
+    const weekend = [{ start: "22:00", end: "07:00", days: ["sun" as const] }];
+    // Monday 06:00 is still Sunday night's window; Monday 23:00 is not quiet
+    assert.equal(quietUntil({ windows: weekend, timeZone: "UTC" }, at(6)), at(7));
+    assert.equal(quietUntil({ windows: weekend, timeZone: "UTC" }, at(23)), null);
+  });
+
+  it("chains do-not-disturb into quiet hours", () => {
+    assert.equal(quietUntil({ dndUntil: at(20) }, at(19)), at(20));
+    assert.equal(quietUntil({ windows: night, dndUntil: at(22, 30), timeZone: "UTC" }, at(21)), at(7, 0, 20));
+    assert.equal(quietUntil({ dndUntil: at(18) }, at(19)), null);
+  });
+});
+
+describe("parseDuration", () => {
+  it("reads minutes, hours and days", () => {
+    assert.equal(parseDuration("90m"), 90 * 60_000);
+    assert.equal(parseDuration("2h"), 2 * 3_600_000);
+    assert.equal(parseDuration("1d"), 86_400_000);
+    assert.equal(parseDuration("soon"), null);
+  });
+});
+
+describe("createDndStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "clawatch-dnd-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps do-not-disturb across store instances until it ends", () => {
+    const file = join(dir, DND_FILE);
+    createDndStore(file).set(IMEI, at(20));
+    const store = createDndStore(file);
+    assert.equal(store.get(IMEI, at(19)), at(20));
+    assert.equal(store.get(IMEI, at(21)), null);
+    assert.equal(store.clear(IMEI, at(19)), true);
+    assert.equal(store.get(IMEI, at(19)), null);
+    assert.equal(store.clear(IMEI, at(19)), false);
+  });
+});
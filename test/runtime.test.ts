@@ -0,0 +1,951 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createClawatchRuntime, type RuntimeCallbacks } from "../src/runtime.js";
+import { createTranscriptStore, TRANSCRIPT_DIR } from "../src/transcript.js";
+import { GatewayError } from "../src/gateway.js";
+import type { ClawatchConfig, WatchEvent, WatchInfo } from "../src/types.js";
+import { FakeWebSocket } from "./fake-websocket.js";
+
+const IMEI = "860000000000001";
+const OTHER_IMEI = "860000000000002";
+
+function makeRuntime(
+  overrides: Partial<ClawatchConfig> = {},
+  callbacks: Partial<RuntimeCallbacks> = {},
+  accountId?: string
+) {
+  const logs: string[] = [];
+  const config: ClawatchConfig = {
+    apiUrl: "wss://example/connect",
+    apiToken: "tok",
+    sessionKeyPrefix: "clawatch:",
+    streamReplies: false,
+    controlTimeoutMs: 5000,
+    pushQueueTtlSec: 3600,
+    ...overrides,
+  };
+  const runtime = createClawatchRuntime(config, {
+    logger: {
+      info: (msg) => logs.push(msg),
+      error: (msg) => logs.push(msg),
+    },
+    onInboundMessage: async () => "ok",
+    ...callbacks,
+  }, accountId);
+  return { runtime, logs };
+}
+
+async function connectRuntime(runtime: ReturnType<typeof makeRuntime>["runtime"], watches: WatchInfo[] = [{ imei: IMEI }]) {
+  const p = runtime.connect();
+  const ws = FakeWebSocket.latest();
+  ws.register(watches);
+  await p;
+  return ws;
+}
+
+/** Let queued promise callbacks (reply sending) run. */
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("createClawatchRuntime", () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "clawatch-test-"));
+    process.env.OPENCLAW_STATE_DIR = stateDir;
+    FakeWebSocket.install();
+    mock.timers.enable({ apis: ["setTimeout", "setInterval"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    rmSync(stateDir, { recursive: true, force: true });
+    delete process.env.OPENCLAW_STATE_DIR;
+  });
+
+  describe("connection", () => {
+    it("refuses to connect without an apiToken", async () => {
+      const { runtime } = makeRuntime({ apiToken: undefined });
+      await assert.rejects(runtime.connect(), /No apiToken/);
+      assert.equal(FakeWebSocket.instances.length, 0);
+    });
+
+    it("tracks paired watches from registered", async () => {
+      const { runtime } = makeRuntime();
+      await connectRuntime(runtime, [{ imei: IMEI }, { imei: OTHER_IMEI }]);
+      assert.equal(runtime.isConnected(), true);
+      assert.deepEqual(runtime.getPairedWatches().map((w) => w.imei), [IMEI, OTHER_IMEI]);
+    });
+
+    it("converts an http apiUrl to ws", async () => {
+      const { runtime } = makeRuntime({ apiUrl: "https://example/connect" });
+      runtime.connect().catch(() => {});
+      assert.equal(FakeWebSocket.latest().url, "wss://example/connect");
+    });
+
+    it("reconnects through the connector backoff after the socket drops", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      ws.drop();
+      assert.equal(FakeWebSocket.instances.length, 1);
+      mock.timers.tick(1000);
+      assert.equal(FakeWebSocket.instances.length, 2);
+    });
+
+    it("retries manually when connect() rejects without a close event", async () => {
+      const { runtime, logs } = makeRuntime();
+      const p = runtime.connect();
+      const ws = FakeWebSocket.latest();
+      // Error without close: only the runtime's manual retry timer can recover
+      ws.onerror?.({});
+      await assert.rejects(p, /WebSocket error/);
+      ws.readyState = FakeWebSocket.CLOSED;
+
+      mock.timers.tick(999);
+      assert.equal(FakeWebSocket.instances.length, 1);
+      mock.timers.tick(1);
+      assert.equal(FakeWebSocket.instances.length, 2);
+      assert.ok(logs.some((l) => l.includes("manual reconnect")));
+    });
+
+    it("stops reconnecting when the token is rejected until a new one is given", async () => {
+      const rejected: Array<[string, string]> = [];
+      const { runtime } = makeRuntime({}, { onTokenRejected: (message, token) => rejected.push([message, token]) });
+      const p = runtime.connect();
+      const ws = FakeWebSocket.latest();
+      ws.open();
+      ws.receive({ type: "error", code: "invalid_token", message: "Token expired" });
+      await assert.rejects(p, /Token expired/);
+      ws.drop();
+      mock.timers.tick(600000);
+      assert.equal(FakeWebSocket.instances.length, 1);
+      assert.equal(runtime.getTokenRejected(), "Token expired");
+      assert.deepEqual(rejected, [["Token expired", "tok"]]);
+
+      const reconnected = runtime.updateToken("fresh");
+      const next = FakeWebSocket.latest();
+      next.register([{ imei: IMEI }]);
+      await reconnected;
+      assert.equal(next.sentOfType("register")[0]!.token, "fresh");
+      assert.equal(runtime.isConnected(), true);
+      assert.equal(runtime.getTokenRejected(), null);
+    });
+
+    it("stops reconnecting after disconnect()", async () => {
+      const { runtime } = makeRuntime();
+      await connectRuntime(runtime);
+      runtime.disconnect();
+      mock.timers.tick(600000);
+      assert.equal(FakeWebSocket.instances.length, 1);
+      assert.deepEqual(runtime.getPairedWatches(), []);
+    });
+  });
+
+  describe("unbound", () => {
+    it("removes the watch from the paired list", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime, [{ imei: IMEI }, { imei: OTHER_IMEI }]);
+      ws.receive({ type: "unbound", imei: IMEI, reason: "reset" });
+      assert.deepEqual(runtime.getPairedWatches().map((w) => w.imei), [OTHER_IMEI]);
+    });
+  });
+
+  describe("sendPush", () => {
+    it("sends a push frame to a paired watch", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      const result = await runtime.sendPush(IMEI, "Take your medicine");
+      assert.equal(result.status, "sent");
+      assert.deepEqual(ws.sentOfType("push"), [{ type: "push", id: result.id, imei: IMEI, text: "Take your medicine" }]);
+    });
+
+    it("waits for the cloud's receipt when pushAckTimeoutMs is set", async () => {
+      const { runtime } = makeRuntime({ pushAckTimeoutMs: 1000 });
+      const ws = await connectRuntime(runtime);
+      const pending = runtime.sendPush(IMEI, "Take your medicine");
+      const [frame] = ws.sentOfType("push");
+      ws.receive({ type: "push_ack", id: frame!.id, ok: true });
+      assert.deepEqual(await pending, { id: frame!.id, status: "delivered" });
+    });
+
+    it("resends an unacknowledged push and fails after the retries", async () => {
+      const { runtime } = makeRuntime({ pushAckTimeoutMs: 1000, pushRetries: 1 });
+      const ws = await connectRuntime(runtime);
+      const pending = runtime.sendPush(IMEI, "Take your medicine");
+      mock.timers.tick(1000);
+      const frames = ws.sentOfType("push");
+      assert.equal(frames.length, 2);
+      assert.equal(frames[1]!.id, frames[0]!.id);
+      mock.timers.tick(1000);
+      await assert.rejects(pending, /No delivery receipt/);
+    });
+
+    it("fails when the cloud cannot deliver the push", async () => {
+      const { runtime } = makeRuntime({ pushAckTimeoutMs: 1000 });
+      const ws = await connectRuntime(runtime);
+      const pending = runtime.sendPush(IMEI, "Take your medicine");
+      ws.receive({ type: "push_ack", id: ws.sentOfType("push")[0]!.id, ok: false, error: "watch offline" });
+      await assert.rejects(pending, /watch offline/);
+    });
+
+    it("queues a push that was not acknowledged before the link dropped", async () => {
+      const { runtime } = makeRuntime({ pushAckTimeoutMs: 1000 });
+      const ws = await connectRuntime(runtime);
+      const pending = runtime.sendPush(IMEI, "Take your medicine");
+      ws.drop();
+      mock.timers.tick(1000);
+      assert.equal((await pending).status, "queued");
+      assert.equal(runtime.getQueuedPushCount(), 1);
+    });
+
+    it("never waits for a receipt for interim messages", async () => {
+      const { runtime } = makeRuntime({ pushAckTimeoutMs: 1000 });
+      await connectRuntime(runtime);
+      assert.equal((await runtime.sendPush(IMEI, "thinking", { queue: false, interim: true })).status, "sent");
+    });
+
+    it("ignores receipts quietly when it is not waiting for them", async () => {
+      const { runtime, logs } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      const { id } = await runtime.sendPush(IMEI, "Hello.");
+      ws.receive({ type: "push_ack", id, ok: true });
+      await flushPromises();
+      assert.ok(!logs.some((l) => l.includes("push_ack for unknown id")));
+    });
+
+    it("normalizes push text for speech", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      runtime.sendPush(IMEI, "**Reminder:** drink water 💧 https://example.com");
+      assert.equal(ws.sentOfType("push")[0]!.text, "Reminder: drink water a link");
+    });
+
+    it("splits a long push and keeps the rest for \"more\"", async () => {
+      const { runtime } = makeRuntime({ watches: { [IMEI]: { replyCharBudget: 25 } } });
+      const ws = await connectRuntime(runtime);
+      runtime.sendPush(IMEI, "Take your pills at noon. Then call your doctor.");
+      assert.equal(ws.sentOfType("push")[0]!.text, 'Take your pills at noon. Say "more" to hear the rest.');
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "more" });
+      assert.equal(ws.sentOfType("reply")[0]!.text, "Then call your doctor.");
+    });
+
+    it("rejects an IMEI that is not paired", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      await assert.rejects(runtime.sendPush(OTHER_IMEI, "hi"), /not paired/);
+      assert.equal(ws.sentOfType("push").length, 0);
+    });
+
+    it("rejects a watch after it was unbound", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "unbound", imei: IMEI });
+      await assert.rejects(runtime.sendPush(IMEI, "hi"), /not paired/);
+    });
+
+    it("queues while disconnected and flushes in order on registration", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      ws.drop();
+
+      const first = await runtime.sendPush(IMEI, "first");
+      const second = await runtime.sendPush(IMEI, "second");
+      assert.equal(first.status, "queued");
+      assert.equal(runtime.getQueuedPushCount(), 2);
+      await assert.rejects(runtime.sendPush(OTHER_IMEI, "nope"), /not paired/);
+
+      mock.timers.tick(1000);
+      FakeWebSocket.latest().register([{ imei: IMEI }]);
+      assert.deepEqual(
+        FakeWebSocket.latest().sentOfType("push").map((f) => f.id),
+        [first.id, second.id]
+      );
+      assert.equal(runtime.getQueuedPushCount(), 0);
+    });
+
+    it("keeps a separate queue per account", async () => {
+      const { runtime: main } = makeRuntime();
+      const { runtime: eu } = makeRuntime({}, {}, "eu");
+      assert.equal(eu.accountId, "eu");
+      const ws = await connectRuntime(main);
+      ws.drop();
+      await main.sendPush(IMEI, "queued on default");
+      assert.equal(main.getQueuedPushCount(), 1);
+      assert.equal(eu.getQueuedPushCount(), 0);
+    });
+
+    it("throws instead of queueing when queue is false", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      ws.drop();
+      await assert.rejects(runtime.sendPush(IMEI, "interim", { queue: false }), /not connected/);
+      assert.equal(runtime.getQueuedPushCount(), 0);
+    });
+
+    it("holds pushes during do not disturb and releases them when it is turned off", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "do not disturb", isCommand: true });
+      await flushPromises();
+      assert.match(String(ws.sentOfType("reply")[0]!.text), /^Okay, I'll hold messages until /);
+
+      const held = await runtime.sendPush(IMEI, "Your parcel has arrived.");
+      assert.equal(held.status, "held");
+      assert.ok(held.holdUntil! > Date.now());
+      assert.equal(runtime.getHeldPushCount(), 1);
+      runtime.sendPush(IMEI, "Take your medicine.", { urgent: true });
+      runtime.sendPush(IMEI, "thinking", { queue: false, interim: true });
+      assert.deepEqual(ws.sentOfType("push").map((f) => f.text), ["Take your medicine.", "thinking"]);
+      // A caller that opted out of queueing is told instead of having the push held
+      await assert.rejects(runtime.sendPush(IMEI, "Now or never.", { queue: false }), /quiet time .* push not queued/);
+      assert.equal(runtime.getHeldPushCount(), 1);
+
+      ws.receive({ type: "message", id: "c2", imei: IMEI, text: "dnd off", isCommand: true });
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("push").map((f) => f.text).slice(2), ["Your parcel has arrived."]);
+      assert.equal(runtime.getQueuedPushCount(), 0);
+    });
+
+    it("splits a held push only when it is released", async () => {
+      const { runtime } = makeRuntime({ watches: { [IMEI]: { replyCharBudget: 25 } } });
+      const ws = await connectRuntime(runtime);
+      runtime.setDnd(IMEI, Date.now() + 60 * 60 * 1000);
+      await runtime.sendPush(IMEI, "Take your pills at noon. Then call your doctor.");
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "what's the weather" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "more", isCommand: true });
+      await flushPromises();
+      assert.equal(ws.sentOfType("reply")[1]!.text, "That's everything.");
+
+      runtime.setDnd(IMEI, null);
+      assert.equal(ws.sentOfType("push")[0]!.text, 'Take your pills at noon. Say "more" to hear the rest.');
+      ws.receive({ type: "message", id: "c2", imei: IMEI, text: "more", isCommand: true });
+      await flushPromises();
+      assert.equal(ws.sentOfType("reply")[2]!.text, "Then call your doctor.");
+    });
+
+    it("keeps pushes held through quiet hours", async () => {
+      const { runtime } = makeRuntime({ quietHours: [{ start: "00:00", end: "00:00" }] });
+      const ws = await connectRuntime(runtime);
+      assert.equal((await runtime.sendPush(IMEI, "Good morning.")).status, "held");
+      // Quiet all day, every day: turning do not disturb off does not release it
+      runtime.setDnd(IMEI, null);
+      mock.timers.tick(60 * 1000);
+      assert.equal(ws.sentOfType("push").length, 0);
+      assert.equal(runtime.getHeldPushCount(), 1);
+    });
+
+    it("releases held pushes when do not disturb runs out", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      const until = Date.now() + 20;
+      runtime.setDnd(IMEI, until);
+      runtime.sendPush(IMEI, "Your parcel has arrived.");
+      assert.equal(ws.sentOfType("push").length, 0);
+      // Date is not mocked; wait out the real clock, then fire the release timer
+      while (Date.now() <= until) await flushPromises();
+      mock.timers.tick(1000);
+      assert.deepEqual(ws.sentOfType("push").map((f) => f.text), ["Your parcel has arrived."]);
+    });
+  });
+
+  describe("sendControl", () => {
+    it("resolves with the matching control_ack", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      const p = runtime.sendControl({ action: "get_config", imei: IMEI });
+      const frame = ws.sentOfType("control")[0]!;
+      ws.receive({ type: "control_ack", id: frame.id, ok: true, result: { intervalSec: 60 } });
+      const ack = await p;
+      assert.deepEqual(ack.result, { intervalSec: 60 });
+    });
+
+    it("rejects when the watch answers ok: false", async () => {
+      const { runtime } = makeRuntime();
+      const ws = await connectRuntime(runtime);
+      const p = runtime.sendControl({ action: "set_interval", imei: IMEI, params: { intervalSec: 0 } });
+      const frame = ws.sentOfType("control")[0]!;
+      ws.receive({ type: "control_ack", id: frame.id, ok: false, error: "bad interval" });
+      await assert.rejects(p, /bad interval/);
+    });
+
+    it("rejects after controlTimeoutMs without an ack", async () => {
+      const { runtime } = makeRuntime({ controlTimeoutMs: 2000 });
+      await connectRuntime(runtime);
+      const p = runtime.sendControl({ action: "get_config", imei: IMEI });
+      mock.timers.tick(2000);
+      await assert.rejects(p, /timed out/);
+    });
+
+    it("rejects immediately when not connected", async () => {
+      const { runtime } = makeRuntime();
+      await assert.rejects(runtime.sendControl({ action: "get_config", imei: IMEI }), /not connected/);
+    });
+  });
+
+  describe("inbound messages", () => {
+    it("replies with a single done frame when streaming is off", async () => {
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async ({ text }) => `echo: ${text}`,
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("reply"), [{ type: "reply", id: "m1", text: "echo: hello", done: true }]);
+    });
+
+    it("records messages, replies, pushes and errors in the transcript", async () => {
+      const { runtime } = makeRuntime({ transcriptEnabled: true }, {
+        onInboundMessage: async ({ text }) => {
+          if (text === "fail") throw new Error("agent down");
+          return `echo: ${text}`;
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello", context: { battery: { value: 80 } } });
+      await flushPromises();
+      await runtime.sendPush(IMEI, "thinking", { queue: false, interim: true });
+      await runtime.sendPush(IMEI, "Take your medicine");
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "fail" });
+      await flushPromises();
+
+      const entries = createTranscriptStore(join(stateDir, "clawatch", TRANSCRIPT_DIR)).read(IMEI);
+      assert.deepEqual(
+        entries.map((e) => [e.kind, e.text]),
+        [
+          ["inbound", "hello"],
+          ["reply", "echo: hello"],
+          ["interim", "thinking"],
+          ["push", "Take your medicine"],
+          ["inbound", "fail"],
+          ["error", "agent down"],
+          ["reply", "Sorry, something went wrong. Please ask me again."],
+        ]
+      );
+      assert.deepEqual(entries[0]!.context, { battery: { value: 80 } });
+      assert.equal(entries[1]!.id, "m1");
+      assert.equal(typeof entries[1]!.latencyMs, "number");
+      assert.equal(entries[3]!.status, "sent");
+      assert.equal(entries[5]!.code, "agent_error");
+    });
+
+    it("streams partial replies and finishes with the remainder", async () => {
+      const { runtime } = makeRuntime({ streamReplies: true, streamMinChunkChars: 5 }, {
+        onInboundMessage: async ({ onDelta }) => {
+          onDelta?.("First sentence. ");
+          onDelta?.("Second one");
+          return "First sentence. Second one";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("reply"), [
+        { type: "reply", id: "m1", text: "First sentence.", done: false },
+        { type: "reply", id: "m1", text: "Second one", done: true },
+      ]);
+    });
+
+    it("normalizes streamed chunks and the final reply for speech", async () => {
+      const reply = "- **Step one** done.\n```sh\nrm -rf /tmp/x\n```\nNow it is 21°C.";
+      const { runtime } = makeRuntime({ streamReplies: true, streamMinChunkChars: 5 }, {
+        onInboundMessage: async ({ onDelta }) => {
+          for (const part of reply.split(/(?<=\n)/)) onDelta?.(part);
+          return reply;
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("reply"), [
+        { type: "reply", id: "m1", text: "Step one done.", done: false },
+        { type: "reply", id: "m1", text: "I've skipped a code example.", done: false },
+        { type: "reply", id: "m1", text: "Now it is 21 degrees Celsius.", done: true },
+      ]);
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "repeat", isCommand: true });
+      assert.equal(ws.sentOfType("reply").at(-1)!.text, "Step one done.\nI've skipped a code example.\nNow it is 21 degrees Celsius.");
+    });
+
+    it("speaks a long reply within the budget and keeps the rest for \"more\"", async () => {
+      const calls: string[] = [];
+      const { runtime } = makeRuntime({ replyCharBudget: 30 }, {
+        onInboundMessage: async ({ text }) => {
+          calls.push(text);
+          return "The first part is here. The second part follows. And the third.";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "tell me everything" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "more" });
+      ws.receive({ type: "message", id: "m3", imei: IMEI, text: "Continue." });
+      ws.receive({ type: "message", id: "m4", imei: IMEI, text: "more", isCommand: true });
+      await flushPromises();
+      assert.deepEqual(calls, ["tell me everything"]);
+      assert.deepEqual(ws.sentOfType("reply").map((f) => f.text), [
+        'The first part is here. Say "more" to hear the rest.',
+        'The second part follows. Say "more" to hear the rest.',
+        "And the third.",
+        "That's everything.",
+      ]);
+    });
+
+    it("holds streamed chunks past the budget", async () => {
+      const { runtime } = makeRuntime({ streamReplies: true, streamMinChunkChars: 5, replyCharBudget: 40 }, {
+        onInboundMessage: async ({ onDelta }) => {
+          for (const part of ["One short sentence. ", "Another sentence here. ", "A third one. ", "End"]) onDelta?.(part);
+          return "One short sentence. Another sentence here. A third one. End";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("reply"), [
+        { type: "reply", id: "m1", text: "One short sentence.", done: false },
+        { type: "reply", id: "m1", text: 'Say "more" to hear the rest.', done: true },
+      ]);
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "more" });
+      assert.equal(ws.sentOfType("reply").at(-1)!.text, "Another sentence here.\nA third one.\nEnd");
+    });
+
+    it("drops the rest of a long reply when a new question comes in", async () => {
+      const { runtime } = makeRuntime({ replyCharBudget: 20 }, {
+        onInboundMessage: async ({ text }) => (text === "long" ? "Part one is here. Part two is here." : "Short."),
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "long" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "short" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m3", imei: IMEI, text: "more", isCommand: true });
+      assert.equal(ws.sentOfType("reply").at(-1)!.text, "That's everything.");
+    });
+
+    it("passes the current place and raises geofence events", async () => {
+      const places: Array<[string | undefined, string | undefined]> = [];
+      const events: WatchEvent[] = [];
+      const { runtime } = makeRuntime(
+        {
+          geofences: [
+            { name: "Home", lat: 1.3, lng: 103.8, radiusM: 100, onLeave: [{ type: "channel", channel: "telegram", to: "123" }] },
+          ],
+        },
+        {
+          onInboundMessage: async ({ placeName, locationName }) => {
+            places.push([placeName, locationName]);
+            return "ok";
+          },
+          onWatchEvent: (event) => events.push(event),
+        }
+      );
+      const ws = await connectRuntime(runtime, [{ imei: IMEI, label: "Kid" }]);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hi", context: { location: { lat: 1.3, lng: 103.8 } } });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "hi", context: { location: { lat: 1.31, lng: 103.8 } } });
+      await flushPromises();
+
+      // Inside a geofence the place wins; outside, the geocoder names the area
+      assert.deepEqual(places, [
+        ["Home", undefined],
+        [undefined, "Singapore"],
+      ]);
+      assert.equal(events.length, 1);
+      assert.equal(events[0]!.kind, "geofence");
+      assert.equal(events[0]!.message, "Kid left Home.");
+      assert.equal(events[0]!.vars.event, "leave");
+    });
+
+    it("ignores stale locations for geofence events", async () => {
+      const events: WatchEvent[] = [];
+      const { runtime } = makeRuntime(
+        {
+          geofences: [
+            { name: "Home", lat: 1.3, lng: 103.8, radiusM: 100, onEnter: [{ type: "push" }], onLeave: [{ type: "push" }] },
+          ],
+          contextMaxAgeMin: { location: 30 },
+        },
+        { onWatchEvent: (event) => events.push(event) }
+      );
+      const ws = await connectRuntime(runtime);
+      const hourAgo = Date.now() - 60 * 60 * 1000;
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hi", context: { location: { lat: 1.3, lng: 103.8 } } });
+      ws.receive({
+        type: "message",
+        id: "m2",
+        imei: IMEI,
+        text: "hi",
+        context: { location: { lat: 1.31, lng: 103.8, received_at: hourAgo } },
+      });
+      await flushPromises();
+      assert.equal(events.length, 0);
+      ws.receive({
+        type: "message",
+        id: "m3",
+        imei: IMEI,
+        text: "hi",
+        context: { location: { lat: 1.31, lng: 103.8, received_at: Date.now() } },
+      });
+      await flushPromises();
+      assert.deepEqual(events.map((e) => e.vars.event), ["leave"]);
+    });
+
+    it("speaks a fallback instead of the raw error when the agent call fails", async () => {
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async () => {
+          throw new GatewayError("Gateway error 500 for http://127.0.0.1/v1/chat/completions: boom", "http", 500);
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("error"), []);
+      assert.deepEqual(ws.sentOfType("reply"), [
+        { type: "reply", id: "m1", text: "Sorry, something went wrong. Please ask me again.", done: true },
+      ]);
+    });
+
+    it("says the assistant is unreachable in the watch's locale when the Gateway is down", async () => {
+      const { runtime } = makeRuntime({ watches: { [IMEI]: { locale: "zh-CN" } } }, {
+        onInboundMessage: async () => {
+          throw new GatewayError("Gateway unreachable: fetch failed", "network");
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("reply"), [
+        { type: "reply", id: "m1", text: "现在连不上你的助理，请稍后再试。", done: true },
+      ]);
+    });
+
+    it("maps the session key back to the IMEI", async () => {
+      let seenKey = "";
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async ({ sessionKey }) => {
+          seenKey = sessionKey;
+          return "ok";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.equal(seenKey, `clawatch:${IMEI}`);
+      assert.equal(runtime.getImeiFromSessionKey(seenKey), IMEI);
+      assert.equal(runtime.getImeiFromSessionKey(`session:${seenKey}`), IMEI);
+    });
+  });
+
+  describe("turn order and cancellation", () => {
+    /** Agent whose turns finish only when the test resolves them, by message text. */
+    function controllableAgent() {
+      const started: string[] = [];
+      const pending = new Map<string, (reply: string) => void>();
+      const aborted: string[] = [];
+      const onInboundMessage: RuntimeCallbacks["onInboundMessage"] = ({ text, signal }) => {
+        started.push(text);
+        signal.addEventListener("abort", () => aborted.push(text));
+        return new Promise<string>((resolve) => pending.set(text, resolve));
+      };
+      return { started, aborted, onInboundMessage, finish: (text: string) => pending.get(text)!(`re: ${text}`) };
+    }
+
+    it("queues a second message until the first turn has replied", async () => {
+      const agent = controllableAgent();
+      const { runtime } = makeRuntime({}, { onInboundMessage: agent.onInboundMessage });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "one" });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "two" });
+      ws.receive({ type: "message", id: "o1", imei: OTHER_IMEI, text: "other" });
+      await flushPromises();
+      // Other watches have their own lane
+      assert.deepEqual(agent.started, ["one", "other"]);
+      agent.finish("one");
+      await flushPromises();
+      assert.deepEqual(agent.started, ["one", "other", "two"]);
+      agent.finish("two");
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("reply").map((f) => f.id), ["m1", "m2"]);
+    });
+
+    it("runs lane work after the running turn and holds later turns behind it", async () => {
+      const agent = controllableAgent();
+      const { runtime } = makeRuntime({}, { onInboundMessage: agent.onInboundMessage });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "one" });
+      await flushPromises();
+      let finishAlert!: (reply: string) => void;
+      const alertTurn = runtime.runInLane(IMEI, () => {
+        agent.started.push("alert");
+        return new Promise<string>((resolve) => (finishAlert = resolve));
+      });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "two" });
+      await flushPromises();
+      assert.deepEqual(agent.started, ["one"]);
+      agent.finish("one");
+      await flushPromises();
+      assert.deepEqual(agent.started, ["one", "alert"]);
+      finishAlert("alert reply");
+      assert.equal(await alertTurn, "alert reply");
+      await flushPromises();
+      assert.deepEqual(agent.started, ["one", "alert", "two"]);
+    });
+
+    it("supersedes the running turn when turnPolicy is supersede", async () => {
+      const agent = controllableAgent();
+      const { runtime } = makeRuntime({ turnPolicy: "supersede" }, { onInboundMessage: agent.onInboundMessage });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "one" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "two" });
+      await flushPromises();
+      assert.deepEqual(agent.aborted, ["one"]);
+      assert.deepEqual(agent.started, ["one", "two"]);
+      agent.finish("one");
+      agent.finish("two");
+      await flushPromises();
+      assert.deepEqual(ws.sentOfType("error"), [
+        { type: "error", id: "m1", message: "Superseded by a newer message", code: "cancelled" },
+      ]);
+      assert.deepEqual(ws.sentOfType("reply"), [{ type: "reply", id: "m2", text: "re: two", done: true }]);
+    });
+
+    it("cancels running and queued turns on a spoken stop", async () => {
+      const agent = controllableAgent();
+      const { runtime } = makeRuntime({}, { onInboundMessage: agent.onInboundMessage });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "one" });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "two" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m3", imei: IMEI, text: "Stop!" });
+      await flushPromises();
+      assert.deepEqual(agent.started, ["one"]);
+      assert.deepEqual(agent.aborted, ["one"]);
+      assert.deepEqual(ws.sentOfType("error").map((f) => [f.id, f.code]), [
+        ["m1", "cancelled"],
+        ["m2", "cancelled"],
+      ]);
+      assert.deepEqual(ws.sentOfType("reply"), [{ type: "reply", id: "m3", text: "Okay, stopped.", done: true }]);
+    });
+
+    it("sends stop to the agent when nothing is running", async () => {
+      const agent = controllableAgent();
+      const { runtime } = makeRuntime({}, { onInboundMessage: agent.onInboundMessage });
+      await connectRuntime(runtime);
+      FakeWebSocket.latest().receive({ type: "message", id: "m1", imei: IMEI, text: "stop" });
+      await flushPromises();
+      assert.deepEqual(agent.started, ["stop"]);
+    });
+  });
+
+  describe("watch commands", () => {
+    it("answers status and repeat locally without an agent turn", async () => {
+      let calls = 0;
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async () => {
+          calls++;
+          return "It is sunny.";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "weather?", context: { battery: { value: 64 }, steps: { value: 3200 } } });
+      await flushPromises();
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "/status", isCommand: true });
+      ws.receive({ type: "message", id: "c2", imei: IMEI, text: "Repeat", isCommand: true });
+      await flushPromises();
+      assert.equal(calls, 1);
+      assert.deepEqual(ws.sentOfType("reply").map((f) => [f.id, f.text]), [
+        ["m1", "It is sunny."],
+        ["c1", "Battery is at 64 percent. 3200 steps today."],
+        ["c2", "Battery is at 64 percent. 3200 steps today."],
+      ]);
+    });
+
+    it("starts a new conversation on a new session key", async () => {
+      const keys: string[] = [];
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async ({ sessionKey }) => {
+          keys.push(sessionKey);
+          return "ok";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hi" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "new conversation", isCommand: true });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "hi again" });
+      await flushPromises();
+      assert.equal(keys[0], `clawatch:${IMEI}`);
+      assert.match(keys[1]!, new RegExp(`^clawatch:${IMEI}:\\w+$`));
+      assert.equal(runtime.currentSessionKey(IMEI), keys[1]);
+      assert.equal(runtime.getImeiFromSessionKey(keys[1]!), IMEI);
+    });
+
+    it("talks in the shared session without mapping it to the watch", async () => {
+      const keys: string[] = [];
+      const { runtime } = makeRuntime({ sessionStrategy: "shared", sharedSessionKey: "agent:main:main" }, {
+        onInboundMessage: async ({ sessionKey }) => {
+          keys.push(sessionKey);
+          return "ok";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hi" });
+      await flushPromises();
+      assert.deepEqual(keys, ["agent:main:main"]);
+      // Other channels' runs on the shared session must not land on the watch
+      assert.equal(runtime.getImeiFromSessionKey("agent:main:main"), null);
+      assert.equal(runtime.getImeiFromSessionKey("session:agent:main:main"), null);
+    });
+
+    it("switches the agent for later turns", async () => {
+      const agents: Array<string | undefined> = [];
+      const { runtime } = makeRuntime({ switchableAgents: ["homework"] }, {
+        onInboundMessage: async ({ agentId }) => {
+          agents.push(agentId);
+          return "ok";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "switch to homework", isCommand: true });
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "what is 7 times 8" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "c2", imei: IMEI, text: "switch to default", isCommand: true });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "hi" });
+      await flushPromises();
+      assert.deepEqual(agents, ["homework", undefined]);
+      assert.equal(ws.sentOfType("reply")[0]!.text, "Okay, you're now talking to homework.");
+    });
+
+    it("refuses agents that are not configured and names the ones that are", async () => {
+      const agents: Array<string | undefined> = [];
+      const { runtime } = makeRuntime(
+        { agentId: "main", switchableAgents: ["Homework_Helper"], watches: { [OTHER_IMEI]: { agentId: "family" } } },
+        {
+          onInboundMessage: async ({ agentId }) => {
+            agents.push(agentId);
+            return "ok";
+          },
+        }
+      );
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "switch to homewok", isCommand: true });
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hi" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "c2", imei: IMEI, text: "switch to homework helper", isCommand: true });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "hi" });
+      await flushPromises();
+      assert.deepEqual(agents, [undefined, "Homework_Helper"]);
+      assert.deepEqual(ws.sentOfType("reply").map((f) => f.text), [
+        "I don't know an agent called homewok. You can switch to main, family, Homework_Helper.",
+        "ok",
+        "Okay, you're now talking to Homework_Helper.",
+        "ok",
+      ]);
+    });
+
+    it("runs configured tool commands and speaks their result", async () => {
+      const calls: unknown[] = [];
+      const { runtime } = makeRuntime(
+        { commands: [{ phrases: ["lights on"], tool: "home_lights", args: { on: true } }] },
+        {
+          onToolCommand: async (call) => {
+            calls.push(call);
+            return { content: [{ type: "text", text: "Living room lights are on." }] };
+          },
+        }
+      );
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "Lights on!", isCommand: true });
+      await flushPromises();
+      assert.deepEqual(calls, [{ imei: IMEI, sessionKey: `clawatch:${IMEI}`, tool: "home_lights", args: { on: true } }]);
+      assert.deepEqual(ws.sentOfType("reply"), [{ type: "reply", id: "c1", text: "Living room lights are on.", done: true }]);
+    });
+
+    it("hands unknown commands to the agent", async () => {
+      const texts: string[] = [];
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async ({ text }) => {
+          texts.push(text);
+          return "ok";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "c1", imei: IMEI, text: "call mom", isCommand: true });
+      await flushPromises();
+      assert.deepEqual(texts, ["call mom"]);
+    });
+  });
+
+  describe("redelivered messages", () => {
+    it("replays the cached reply without a second agent turn", async () => {
+      let calls = 0;
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async ({ text }) => {
+          calls++;
+          return `echo: ${text}`;
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.equal(calls, 1);
+      assert.deepEqual(ws.sentOfType("reply"), [
+        { type: "reply", id: "m1", text: "echo: hello", done: true },
+        { type: "reply", id: "m1", text: "echo: hello", done: true },
+      ]);
+    });
+
+    it("attaches a duplicate to the in-flight turn and finishes with the whole reply", async () => {
+      let calls = 0;
+      let finish: (text: string) => void = () => {};
+      const { runtime } = makeRuntime({ streamReplies: true, streamMinChunkChars: 5 }, {
+        onInboundMessage: ({ onDelta }) => {
+          calls++;
+          onDelta?.("First part. ");
+          return new Promise<string>((resolve) => {
+            finish = (rest) => {
+              onDelta?.(rest);
+              resolve(`First part. ${rest}`);
+            };
+          });
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "hello" });
+      finish("Second part.");
+      await flushPromises();
+      assert.equal(calls, 1);
+      assert.deepEqual(ws.sentOfType("reply"), [
+        { type: "reply", id: "m1", text: "First part.", done: false },
+        { type: "reply", id: "m1", text: "First part. Second part.", done: true },
+      ]);
+    });
+
+    it("repeats the fallback for a failed turn and runs new ids normally", async () => {
+      let calls = 0;
+      const { runtime } = makeRuntime({}, {
+        onInboundMessage: async ({ text }) => {
+          calls++;
+          if (text === "fail") throw new Error("agent down");
+          return "ok";
+        },
+      });
+      const ws = await connectRuntime(runtime);
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "fail" });
+      await flushPromises();
+      ws.receive({ type: "message", id: "m1", imei: IMEI, text: "fail" });
+      ws.receive({ type: "message", id: "m2", imei: IMEI, text: "hello" });
+      await flushPromises();
+      assert.equal(calls, 2);
+      const fallback = "Sorry, something went wrong. Please ask me again.";
+      assert.deepEqual(ws.sentOfType("reply").map((f) => f.text), [fallback, fallback, "ok"]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSensorStore, formatSensorSummary, toMillis, recentDayKeys } from "../src/sensors.js";
+
+const IMEI = "860000000000001";
+const TZ = "UTC";
+// 2026-10-19 12:00 UTC
+const NOW = Date.UTC(2026, 9, 19, 12);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe("sensor store", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "clawatch-sensors-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("normalizes second and millisecond timestamps", () => {
+    assert.equal(toMillis(1_700_000_000), 1_700_000_000_000);
+    assert.equal(toMillis(1_700_000_000_000), 1_700_000_000_000);
+  });
+
+  it("lists recent local days, today first", () => {
+    assert.deepEqual(recentDayKeys(3, NOW, TZ), ["2026-10-19", "2026-10-18", "2026-10-17"]);
+  });
+
+  it("aggregates heart rate and dedupes repeated readings", () => {
+    const store = createSensorStore(dir);
+    const at = (t: number, value: number) => ({ health: { heart_rate: { value, received_at: Math.floor(t / 1000) } } });
+    store.record(IMEI, at(NOW - 2 * HOUR, 60), NOW - 2 * HOUR);
+    // Same reading attached to a later message: counted once
+    store.record(IMEI, at(NOW - 2 * HOUR, 60), NOW - HOUR);
+    store.record(IMEI, at(NOW - HOUR, 90), NOW - HOUR);
+    store.record(IMEI, at(NOW - DAY, 75), NOW - DAY);
+
+    const today = store.summarize(IMEI, "heart_rate", { days: 1, now: NOW, timeZone: TZ });
+    assert.deepEqual(today.overall, { count: 2, min: 60, max: 90, avg: 75, last: 90 });
+
+    const week = store.summarize(IMEI, "heart_rate", { days: 7, now: NOW, timeZone: TZ });
+    assert.equal(week.readings, 3);
+    assert.deepEqual(week.days.map((d) => [d.date, d.avg]), [["2026-10-18", 75], ["2026-10-19", 75]]);
+  });
+
+  it("totals steps as each day's highest running count", () => {
+    const store = createSensorStore(dir);
+    store.record(IMEI, { steps: { value: 1000 } }, NOW - DAY - 3 * HOUR);
+    store.record(IMEI, { steps: { value: 6500 } }, NOW - DAY);
+    store.record(IMEI, { steps: { value: 2000 } }, NOW);
+
+    const yesterday = store.summarize(IMEI, "steps", { days: 1, offsetDays: 1, now: NOW, timeZone: TZ });
+    assert.equal(yesterday.totalSteps, 6500);
+    assert.equal(formatSensorSummary(yesterday, "yesterday"), "Steps yesterday: 6500 total over 1 day(s).\n- 2026-10-18: 6500 steps");
+
+    const week = store.summarize(IMEI, "steps", { days: 7, now: NOW, timeZone: TZ });
+    assert.equal(week.totalSteps, 8500);
+  });
+
+  it("summarizes blood pressure as systolic/diastolic", () => {
+    const store = createSensorStore(dir);
+    store.record(IMEI, { health: { blood_pressure: { systolic: 120, diastolic: 80 } } }, NOW - HOUR);
+    store.record(IMEI, { health: { blood_pressure: { systolic: 130, diastolic: 90 } } }, NOW);
+    const summary = store.summarize(IMEI, "blood_pressure", { days: 1, now: NOW, timeZone: TZ });
+    assert.match(formatSensorSummary(summary, "today"), /avg 125\/85 mmHg, systolic 120-130, diastolic 80-90, latest 130\/90/);
+  });
+
+  it("reports when there is no data", () => {
+    const store = createSensorStore(dir);
+    const summary = store.summarize(IMEI, "oxygen", { days: 7, now: NOW, timeZone: TZ });
+    assert.equal(formatSensorSummary(summary, "over the last 7 days"), "Blood oxygen: no readings over the last 7 days.");
+  });
+
+  it("prunes snapshots older than the retention window", () => {
+    const store = createSensorStore(dir, { retentionDays: 2 });
+    const old = createSensorStore(dir, { retentionDays: 2 });
+    old.record(IMEI, { battery: { value: 10 } }, NOW - 5 * DAY);
+    store.record(IMEI, { battery: { value: 90 } }, NOW);
+    const lines = readFileSync(join(dir, `${IMEI}.jsonl`), "utf-8").trim().split("\n");
+    assert.equal(lines.length, 1);
+    assert.deepEqual(store.readings(IMEI, "battery").map((r) => r.value), [90]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSessionStore, sessionKeyFor, sessionKeyOptions, SESSIONS_FILE } from "../src/sessions.js";
+import { resolveConfig } from "../src/config.js";
+
+const IMEI = "860000000000001";
+const MIN = 60_000;
+
+describe("createSessionStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "clawatch-sessions-"));
+    file = join(dir, SESSIONS_FILE);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps a reset across store instances", () => {
+    const suffix = createSessionStore(file).reset(IMEI, 1_000);
+    assert.deepEqual(createSessionStore(file).get(IMEI), { suffix });
+  });
+
+  it("reads the older bare-suffix format", () => {
+    writeFileSync(file, JSON.stringify({ [IMEI]: "abc" }));
+    assert.deepEqual(createSessionStore(file).get(IMEI), { suffix: "abc" });
+  });
+
+  it("starts a new conversation after an idle gap", () => {
+    const store = createSessionStore(file);
+    const t0 = Date.UTC(2026, 9, 19, 8, 0);
+    assert.equal(store.touch(IMEI, t0, 30 * MIN).suffix, undefined);
+    assert.equal(store.touch(IMEI, t0 + 20 * MIN, 30 * MIN).suffix, undefined);
+    const rotated = store.touch(IMEI, t0 + 60 * MIN, 30 * MIN);
+    assert.equal(rotated.suffix, (t0 + 60 * MIN).toString(36));
+    assert.equal(rotated.lastActiveAt, t0 + 60 * MIN);
+  });
+});
+
+describe("sessionKeyFor", () => {
+  const now = Date.UTC(2026, 9, 19, 20, 0);
+  const base = { prefix: "clawatch:", sharedKey: "main" };
+
+  it("builds persistent keys with the new-conversation suffix", () => {
+    assert.equal(sessionKeyFor(IMEI, {}, { ...base, strategy: "persistent" }, now), `clawatch:${IMEI}`);
+    assert.equal(sessionKeyFor(IMEI, { suffix: "m2k3" }, { ...base, strategy: "idle" }, now), `clawatch:${IMEI}:m2k3`);
+  });
+
+  it("rolls daily keys over at the wearer's midnight", () => {
+    const opts = { ...base, strategy: "daily" as const, timeZone: "Asia/Singapore" };
+    assert.equal(sessionKeyFor(IMEI, {}, opts, now), `clawatch:${IMEI}:2026-10-20`);
+    assert.equal(sessionKeyFor(IMEI, { suffix: "m2k3" }, { ...opts, timeZone: "UTC" }, now), `clawatch:${IMEI}:2026-10-19:m2k3`);
+  });
+
+  it("uses the shared key for every watch", () => {
+    assert.equal(sessionKeyFor(IMEI, { suffix: "m2k3" }, { ...base, strategy: "shared" }, now), "main");
+  });
+});
+
+describe("sessionKeyOptions", () => {
+  it("takes the profile strategy over the global one", () => {
+    const config = resolveConfig({
+      sessionKeyPrefix: "wrist/",
+      sessionStrategy: "idle",
+      sessionIdleMin: 10,
+      watches: { [IMEI]: { sessionStrategy: "daily", timeZone: "Asia/Tokyo" } },
+    })!;
+    assert.deepEqual(sessionKeyOptions(config, IMEI), {
+      strategy: "daily",
+      prefix: "wrist/",
+      sharedKey: "main",
+      timeZone: "Asia/Tokyo",
+      idleMs: undefined,
+    });
+    assert.equal(sessionKeyOptions(config, "860000000000002").idleMs, 10 * MIN);
+  });
+});
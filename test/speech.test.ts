@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createSpeechNormalizer, normalizeForSpeech, parseSpeechConfig, speechRulesFor } from "../src/speech.js";
+
+describe("normalizeForSpeech", () => {
+  it("strips markdown formatting, bullets and headings", () => {
+    const text = "## Today\n- **Walk** the dog\n* Buy _milk_ and `eggs`\n> Don't forget\n---";
+    assert.equal(normalizeForSpeech(text, undefined), "Today\nWalk the dog\nBuy milk and eggs\nDon't forget");
+  });
+
+  it("reads tables row by row", () => {
+    const text = "| Day | Steps |\n|-----|------:|\n| Mon | 4200 |";
+    assert.equal(normalizeForSpeech(text, undefined), "Day, Steps\nMon, 4200");
+  });
+
+  it("replaces links and bare URLs", () => {
+    assert.equal(
+      normalizeForSpeech("See [the forecast](https://weather.example/sg) or https://example.com/a?b=1.", undefined),
+      "See the forecast or a link."
+    );
+    assert.equal(normalizeForSpeech("詳見 https://example.com", undefined, "zh-TW"), "詳見 一個連結");
+  });
+
+  it("reads out units in the watch's language", () => {
+    assert.equal(
+      normalizeForSpeech("Heart rate 72 bpm, 36.8°C, oxygen 98%, BP 120/80 mmHg.", undefined),
+      "Heart rate 72 beats per minute, 36.8 degrees Celsius, oxygen 98 percent, BP 120/80 millimeters of mercury."
+    );
+    assert.equal(normalizeForSpeech("体温 36.8°C", undefined, "zh-CN"), "体温 摄氏36.8度");
+  });
+
+  it("drops code blocks with a spoken note and removes emoji", () => {
+    const text = "Try this 👍🏽:\n```python\nprint('hi')\n```\nGood luck! 🎉";
+    assert.equal(normalizeForSpeech(text, undefined), "Try this:\nI've skipped a code example.\nGood luck!");
+  });
+
+  it("skips a code block spread over streamed chunks", () => {
+    const speech = createSpeechNormalizer(undefined);
+    assert.equal(speech.normalize("Here you go:\n```js"), "Here you go:\nI've skipped a code example.");
+    assert.equal(speech.normalize("const a = 1;"), "");
+    assert.equal(speech.normalize("```\nThat's it."), "That's it.");
+  });
+});
+
+describe("speech rules", () => {
+  const config = parseSpeechConfig({
+    rules: { emoji: false, bogus: true },
+    locales: { zh: { units: false }, "zh-TW": { urls: false } },
+  });
+
+  it("applies the exact locale, else the base language, over the global rules", () => {
+    assert.deepEqual(speechRulesFor(config, "zh-TW"), { markdown: true, urls: false, units: true, codeBlocks: true, emoji: false });
+    assert.deepEqual(speechRulesFor(config, "zh_CN"), { markdown: true, urls: true, units: false, codeBlocks: true, emoji: false });
+    assert.equal(normalizeForSpeech("36.8°C 🙂", config, "zh-CN"), "36.8°C 🙂");
+  });
+
+  it("leaves text untouched when disabled", () => {
+    const text = "**Hi** https://example.com 98%";
+    assert.equal(normalizeForSpeech(text, parseSpeechConfig({ enabled: false })), text);
+  });
+});
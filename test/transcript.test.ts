@@ -0,0 +1,84 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createTranscriptStore, formatTranscript, parseSince } from "../src/transcript.js";
+import { dayKey } from "../src/sensors.js";
+
+const IMEI = "860000000000001";
+// 2026-10-19 12:00 UTC
+const NOW = Date.UTC(2026, 9, 19, 12);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe("transcript store", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "clawatch-transcript-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads entries back in time order, filtered by range and limit", () => {
+    const store = createTranscriptStore(dir);
+    store.append({ t: NOW - 2 * DAY, kind: "inbound", imei: IMEI, id: "m1", text: "old" });
+    store.append({ t: NOW - HOUR, kind: "inbound", imei: IMEI, id: "m2", text: "hello" });
+    store.append({ t: NOW - HOUR + 1500, kind: "reply", imei: IMEI, id: "m2", text: "hi there", latencyMs: 1500 });
+    store.append({ t: NOW, kind: "push", imei: IMEI, id: "p1", text: "medicine", status: "sent" });
+    store.append({ t: NOW, kind: "inbound", imei: "860000000000002", id: "x", text: "other watch" });
+
+    assert.deepEqual(store.read(IMEI).map((e) => e.text), ["old", "hello", "hi there", "medicine"]);
+    assert.deepEqual(store.read(IMEI, { since: NOW - DAY }).map((e) => e.text), ["hello", "hi there", "medicine"]);
+    assert.deepEqual(store.read(IMEI, { limit: 2 }).map((e) => e.text), ["hi there", "medicine"]);
+    assert.deepEqual(store.listImeis(), ["860000000000001", "860000000000002"]);
+  });
+
+  it("writes one file per day and deletes days past retention", () => {
+    const store = createTranscriptStore(dir, { retentionDays: 7 });
+    store.append({ t: NOW - 10 * DAY, kind: "inbound", imei: IMEI, text: "ancient" });
+    store.append({ t: NOW - 3 * DAY, kind: "inbound", imei: IMEI, text: "recent" });
+    store.append({ t: NOW, kind: "inbound", imei: IMEI, text: "today" });
+
+    assert.deepEqual(readdirSync(join(dir, IMEI)), [`${dayKey(NOW - 3 * DAY)}.jsonl`, `${dayKey(NOW)}.jsonl`]);
+    assert.deepEqual(store.read(IMEI).map((e) => e.text), ["recent", "today"]);
+  });
+
+  it("returns nothing for an unknown watch", () => {
+    assert.deepEqual(createTranscriptStore(dir).read(IMEI), []);
+  });
+});
+
+describe("parseSince", () => {
+  it("accepts durations and dates", () => {
+    assert.equal(parseSince("30m", NOW), NOW - 30 * 60 * 1000);
+    assert.equal(parseSince("12h", NOW), NOW - 12 * HOUR);
+    assert.equal(parseSince("7d", NOW), NOW - 7 * DAY);
+    assert.equal(parseSince("2026-10-01T00:00:00Z", NOW), Date.UTC(2026, 9, 1));
+    assert.equal(parseSince("yesterday-ish", NOW), null);
+  });
+});
+
+describe("formatTranscript", () => {
+  it("prints one line per entry with id, latency and status", () => {
+    const text = formatTranscript(
+      [
+        { t: NOW, kind: "inbound", imei: IMEI, id: "m1", text: "What's\nthe time?" },
+        { t: NOW + 1800, kind: "reply", imei: IMEI, id: "m1", text: "Noon.", latencyMs: 1800 },
+        { t: NOW + 5000, kind: "push", imei: IMEI, id: "p1", text: "Lunch", status: "queued" },
+      ],
+      "UTC"
+    );
+    assert.equal(
+      text,
+      [
+        "2026-10-19 12:00:00  watch    What's the time?  [m1]",
+        "2026-10-19 12:00:01  agent    Noon.  [m1, 1.8s]",
+        "2026-10-19 12:00:05  push     Lunch  [p1, queued]",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTurnCache } from "../src/turn-cache.js";
+
+describe("turn cache", () => {
+  it("tracks a turn from running to done", () => {
+    const cache = createTurnCache(60_000);
+    assert.equal(cache.get("m1"), null);
+    cache.start("m1");
+    assert.deepEqual(cache.get("m1"), { status: "running", redelivered: false });
+    assert.equal(cache.markRedelivered("m1"), true);
+    assert.equal(cache.wasRedelivered("m1"), true);
+    cache.complete("m1", "hi");
+    assert.deepEqual(cache.get("m1"), { status: "done", reply: "hi" });
+    assert.equal(cache.markRedelivered("m1"), false);
+  });
+
+  it("forgets finished turns after the TTL but keeps running ones", () => {
+    let t = 0;
+    const cache = createTurnCache(1000, 500, () => t);
+    cache.start("done");
+    cache.complete("done", "ok");
+    cache.start("slow");
+    t = 5000;
+    assert.equal(cache.get("done"), null);
+    assert.equal(cache.get("slow")?.status, "running");
+  });
+
+  it("evicts the oldest ids beyond the size bound", () => {
+    const cache = createTurnCache(60_000, 2);
+    cache.start("a");
+    cache.fail("a", "boom");
+    cache.start("b");
+    cache.start("c");
+    assert.equal(cache.get("a"), null);
+    assert.equal(cache.size(), 2);
+  });
+});
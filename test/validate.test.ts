@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validateFrame, FrameValidationError } from "../src/validate.js";
+
+function issuesOf(raw: unknown): string[] {
+  try {
+    validateFrame(raw);
+    return [];
+  } catch (err) {
+    assert.ok(err instanceof FrameValidationError);
+    return err.issues;
+  }
+}
+
+describe("validateFrame", () => {
+  it("accepts a full message frame with context", () => {
+    const frame = {
+      type: "message",
+      id: "m1",
+      imei: "860000000000001",
+      text: "hi",
+      timestamp: 1700000000,
+      isCommand: false,
+      context: {
+        location: { lat: 1.35, lng: 103.82, received_at: 1700000000 },
+        steps: { value: 4200 },
+        health: { blood_pressure: { systolic: 120, diastolic: 80 } },
+      },
+    };
+    assert.equal(validateFrame(frame), frame);
+  });
+
+  it("reports every problem in a malformed message with its id", () => {
+    try {
+      validateFrame({ type: "message", id: "m1", text: 42, context: { steps: { value: "many" } } });
+      assert.fail("expected FrameValidationError");
+    } catch (err) {
+      assert.ok(err instanceof FrameValidationError);
+      assert.equal(err.frameType, "message");
+      assert.equal(err.frameId, "m1");
+      assert.deepEqual(err.issues, [
+        "imei must be a non-empty string",
+        "text must be a string",
+        "context.steps.value must be a number",
+      ]);
+    }
+  });
+
+  it("rejects wrong context shapes", () => {
+    assert.deepEqual(
+      issuesOf({ type: "message", id: "m1", imei: "1", text: "", context: { location: "home", health: [] } }),
+      ["context.location must be an object", "context.health must be an object"]
+    );
+  });
+
+  it("validates registered watches", () => {
+    assert.deepEqual(issuesOf({ type: "registered", watches: [{ imei: "1" }, { label: "x" }] }), [
+      "watches[1].imei must be a non-empty string",
+    ]);
+    assert.deepEqual(issuesOf({ type: "registered" }), ["watches must be an array"]);
+  });
+
+  it("validates control_ack", () => {
+    assert.deepEqual(issuesOf({ type: "control_ack", id: "c1", ok: "yes" }), ["ok must be a boolean"]);
+    assert.deepEqual(issuesOf({ type: "control_ack", id: "c1", ok: true, result: { a: 1 } }), []);
+  });
+
+  it("validates push_ack", () => {
+    assert.deepEqual(issuesOf({ type: "push_ack", id: "", ok: true }), ["id must be a non-empty string"]);
+    assert.deepEqual(issuesOf({ type: "push_ack", id: "push-1", ok: false, error: "watch offline" }), []);
+  });
+
+  it("rejects non-objects and missing type", () => {
+    assert.deepEqual(issuesOf("hello"), ["frame must be a JSON object"]);
+    assert.deepEqual(issuesOf([1]), ["frame must be a JSON object"]);
+    assert.deepEqual(issuesOf({ id: "x" }), ["type must be a string"]);
+  });
+
+  it("passes unknown frame types through", () => {
+    const frame = { type: "future_feature", anything: true };
+    assert.equal(validateFrame(frame) as unknown, frame);
+    assert.deepEqual(issuesOf({ type: "toString" }), []);
+  });
+});